@@ -22,8 +22,18 @@ import {
   ComplianceUnit,
   LogicInput,
   Payload,
+  CommitmentTree,
   CommitmentTreeRoot,
   ForwarderCall,
+  UnknownSelector,
+  ProtocolAdapterState,
+  DecodingFailure,
+  ConsistencyIssue,
+  Nullifier,
+  Commitment,
+  TagCollision,
+  PauseEvent,
+  OwnershipChange,
   handlerContext,
   ProtocolAdapter_TransactionExecuted_event,
   ProtocolAdapter_ActionExecuted_event,
@@ -33,12 +43,52 @@ import {
   ProtocolAdapter_ApplicationPayload_event,
   ProtocolAdapter_CommitmentTreeRootAdded_event,
   ProtocolAdapter_ForwarderCallExecuted_event,
+  ProtocolAdapter_Paused_event,
+  ProtocolAdapter_Unpaused_event,
+  ProtocolAdapter_OwnershipTransferred_event,
 } from "generated";
+import { numberToHex, size, type Hex } from "viem";
 
 import { safeDecodeResourceBlob } from "./decoders/ResourceDecoder";
-import { decodeExecuteCalldata, isExecuteCalldata } from "./decoders/ActionDecoder";
-import type { Action as DecodedAction } from "./types";
+import {
+  decodeExecuteCalldata,
+  findExecuteCalls,
+  type DecodedTransactionError,
+} from "./decoders/ActionDecoder";
+import {
+  getExecuteSelector,
+  protocolAdapterVersionRegistry,
+} from "./decoders/ProtocolAdapterVersionRegistry";
+import { payloadDecoderRegistry, type PayloadDecoderKind } from "./decoders/PayloadDecoderRegistry";
+import { decodeForwarderCall } from "./decoders/ForwarderCallDecoder";
+import {
+  createApplicationId,
+  updateActivity,
+  recordTagAppearance,
+  updateApplication,
+  updateChainStats,
+  type ApplicationDelta,
+} from "./stats";
+import {
+  DeletionCriterion,
+  type Action as DecodedAction,
+  type AppData,
+  type LogicVerifierInput,
+} from "./types";
 import { BoundedCache } from "./utils/BoundedCache";
+import { matchLogicInputs } from "./utils/compliance";
+import {
+  checkActionTagCount,
+  checkCalldataTags,
+  checkExecuteCallCount,
+  checkTagCount,
+  type ConsistencyViolation,
+} from "./utils/consistency";
+import { verifyDeltaProof } from "./utils/delta";
+import { getProofMetadata, type ProofKind } from "./utils/proof";
+import { IncrementalMerkleTree } from "./utils/IncrementalMerkleTree";
+import type { JsonValue } from "./utils/json";
+import { computeActionTreeRoot, findActionIndexByTreeRoot } from "./utils/merkle";
 import { DECODED_CALLDATA_CACHE_MAX_SIZE, isConsumedIndex } from "./constants";
 
 // ============================================
@@ -85,6 +135,21 @@ type ForwarderCallExecutedArgs = {
   context: handlerContext;
 };
 
+type PausedArgs = {
+  event: ProtocolAdapter_Paused_event;
+  context: handlerContext;
+};
+
+type UnpausedArgs = {
+  event: ProtocolAdapter_Unpaused_event;
+  context: handlerContext;
+};
+
+type OwnershipTransferredArgs = {
+  event: ProtocolAdapter_OwnershipTransferred_event;
+  context: handlerContext;
+};
+
 // ============================================
 // Helper Functions
 // ============================================
@@ -105,9 +170,11 @@ function createEventId(event: {
  * Creates a transaction identifier using the EVM transaction hash.
  * All events within the same EVM transaction share the same hash,
  * allowing proper correlation between TransactionExecuted, ResourcePayload, etc.
+ * An EVM transaction batching several execute() calls holds one Anoma transaction per call,
+ * so their identifiers add the position of the call.
  */
-function createTransactionId(chainId: number, txHash: string): string {
-  return `${chainId}_${txHash}`;
+function createTransactionId(chainId: number, txHash: string, callIndex?: number): string {
+  return callIndex === undefined ? `${chainId}_${txHash}` : `${chainId}_${txHash}_${callIndex}`;
 }
 
 /**
@@ -118,6 +185,14 @@ function createResourceId(chainId: number, tag: string): string {
   return `${chainId}_${tag}_resource`;
 }
 
+/**
+ * Creates an action identifier from its transaction and action tree root.
+ * Multiple actions can exist in one transaction, so the root disambiguates them.
+ */
+function createActionId(txId: string, actionTreeRoot: string): string {
+  return `${txId}_${actionTreeRoot.toLowerCase()}`;
+}
+
 /**
  * Creates a compliance unit identifier.
  */
@@ -132,78 +207,583 @@ function createLogicInputId(actionId: string, index: number): string {
   return `${actionId}_logic_${index}`;
 }
 
+// ============================================
+// Commitment Tree State
+// ============================================
+// The Protocol Adapter appends every created commitment to a single commitment tree per
+// deployment. CommitmentTree tracks its size so roots and leaves get global positions.
+
+/**
+ * Creates the per-chain commitment tree identifier.
+ */
+function createCommitmentTreeId(chainId: number): string {
+  return `${chainId}`;
+}
+
+/**
+ * Loads the commitment tree state for a chain, or an empty tree if none was recorded yet.
+ */
+async function getCommitmentTree(
+  context: handlerContext,
+  chainId: number,
+  blockNumber: number
+): Promise<CommitmentTree> {
+  const id = createCommitmentTreeId(chainId);
+  const existing = await context.CommitmentTree.get(id);
+  if (existing) {
+    return existing;
+  }
+  return {
+    id,
+    chainId,
+    rootCount: 0,
+    leafCount: 0,
+    frontier: [],
+    lastRootId: undefined,
+    lastRootTxHash: undefined,
+    lastComputedRoot: undefined,
+    lastComputedTxHash: undefined,
+    lastUpdatedBlock: blockNumber,
+  };
+}
+
+/**
+ * Creates the identifier of the lookup entry for a root value on a chain.
+ */
+function createCommitmentTreeRootLookupId(chainId: number, root: string): string {
+  return `${chainId}_${root.toLowerCase()}`;
+}
+
+/**
+ * Resolves a root value to the first CommitmentTreeRoot that added it on the chain.
+ */
+async function findCommitmentTreeRoot(
+  context: handlerContext,
+  chainId: number,
+  root: string
+): Promise<CommitmentTreeRoot | undefined> {
+  const lookup = await context.CommitmentTreeRootLookup.get(
+    createCommitmentTreeRootLookupId(chainId, root)
+  );
+  return lookup ? context.CommitmentTreeRoot.get(lookup.commitmentTreeRoot_id) : undefined;
+}
+
+/**
+ * Compares an emitted commitment tree root with the root recomputed by the indexer.
+ */
+function verifyCommitmentTreeRoot(
+  root: CommitmentTreeRoot,
+  computedRoot: string
+): CommitmentTreeRoot {
+  const verified = root.root.toLowerCase() === computedRoot.toLowerCase();
+  if (!verified) {
+    console.log(
+      `Commitment tree diverged on chain ${root.chainId} in tx ${root.txHash}: ` +
+        `emitted ${root.root}, computed ${computedRoot}`
+    );
+  }
+  return {
+    ...root,
+    computedRoot,
+    verificationStatus: verified ? "verified" : "diverged",
+  };
+}
+
+// ============================================
+// Protocol Adapter State
+// ============================================
+
+/**
+ * Creates the Protocol Adapter state identifier for a deployment.
+ */
+function createAdapterStateId(chainId: number, contractAddress: string): string {
+  return `${chainId}_${contractAddress.toLowerCase()}`;
+}
+
+/**
+ * Loads the state of a Protocol Adapter deployment, or the state it has before any
+ * Paused/Unpaused/OwnershipTransferred event: unpaused with an unknown owner.
+ */
+async function getAdapterState(
+  context: handlerContext,
+  event: {
+    chainId: number;
+    srcAddress: string;
+    block: { number: number; timestamp: number };
+    transaction: { hash: string };
+  }
+): Promise<ProtocolAdapterState> {
+  const id = createAdapterStateId(event.chainId, event.srcAddress);
+  const existing = await context.ProtocolAdapterState.get(id);
+  if (existing) {
+    return existing;
+  }
+  return {
+    id,
+    chainId: event.chainId,
+    contractAddress: event.srcAddress,
+    owner: undefined,
+    paused: false,
+    lastChangeBlock: event.block.number,
+    lastChangeTimestamp: event.block.timestamp,
+    lastChangeTxHash: event.transaction.hash,
+  };
+}
+
+/**
+ * Counts a transaction decoded with a Protocol Adapter version.
+ */
+async function recordProtocolAdapterVersion(context: handlerContext, name: string): Promise<void> {
+  const existing = await context.ProtocolAdapterVersion.get(name);
+  if (existing) {
+    context.ProtocolAdapterVersion.set({
+      ...existing,
+      transactionCount: existing.transactionCount + 1,
+    });
+    return;
+  }
+
+  const version = protocolAdapterVersionRegistry.get(name);
+  context.ProtocolAdapterVersion.set({
+    id: name,
+    executeSelector: version ? getExecuteSelector(version) : "",
+    transactionCount: 1,
+  });
+}
+
+// ============================================
+// Proof Metadata
+// ============================================
+
+/**
+ * Records an occurrence of a proof in its Proof entity, keyed by content hash.
+ * The entity is shared across chains; each occurrence links to it with its own chain.
+ *
+ * @returns The Proof ID, or undefined for an empty proof
+ */
+async function recordProof(
+  context: handlerContext,
+  kind: ProofKind,
+  proof: string | undefined
+): Promise<string | undefined> {
+  const metadata = getProofMetadata(kind, proof as Hex | undefined);
+  if (!metadata) {
+    return undefined;
+  }
+
+  const existing = await context.Proof.get(metadata.hash);
+  context.Proof.set(
+    existing
+      ? { ...existing, occurrenceCount: existing.occurrenceCount + 1 }
+      : {
+          id: metadata.hash,
+          kind: metadata.kind,
+          byteLength: metadata.byteLength,
+          verifierSelector: metadata.verifierSelector,
+          occurrenceCount: 1,
+        }
+  );
+  return metadata.hash;
+}
+
 // ============================================
 // Calldata Decoding Cache
 // ============================================
-// Cache decoded calldata by txHash to avoid re-decoding for each ActionExecuted event
-// within the same EVM transaction. Uses BoundedCache to prevent unbounded memory growth.
+// Cache decoded calldata by chain and txHash to avoid re-decoding for each ActionExecuted event
+// within the same EVM transaction. The chain is part of the key because the version and the
+// Protocol Adapter address used for decoding depend on it. Entries are cleared by
+// TransactionExecuted; BoundedCache evicts those of transactions that never emit it.
 type DecodedCalldata = {
   actions: DecodedAction[];
   deltaProof: string;
   aggregationProof: string;
+  version: string; // Protocol Adapter version that decoded the calldata
+  wrapperPath: string[]; // Wrapper calls around the execute() call, empty for direct calls
 };
 
-const decodedCalldataCache = new BoundedCache<string, DecodedCalldata>(
+/**
+ * Decoded execute() calls of a transaction, in calldata order. A wrapper may batch several.
+ */
+type CalldataDecoding = { success: true; calls: DecodedCalldata[] } | DecodedTransactionError;
+
+const decodedCalldataCache = new BoundedCache<string, CalldataDecoding>(
   DECODED_CALLDATA_CACHE_MAX_SIZE
 );
 
 /**
- * Get decoded transaction data from cache or decode from calldata.
+ * Create the calldata cache key for an EVM transaction on a chain.
  */
-function getDecodedTransaction(
-  txHash: string,
-  input: string | undefined
-): {
-  actions: DecodedAction[];
-  deltaProof: string;
-  aggregationProof: string;
-} | null {
+function createCalldataCacheKey(chainId: number, txHash: string): string {
+  return `${chainId}_${txHash}`;
+}
+
+/**
+ * Decode a transaction's calldata, or get the cached result, using the Protocol Adapter version
+ * pinned for the emitting deployment or the one matching the calldata selector.
+ * Failures are cached too, so they are logged and recorded once per transaction.
+ */
+function decodeTransactionCalldata(event: {
+  chainId: number;
+  srcAddress: string;
+  block: { number: number };
+  transaction: { hash: string };
+}): CalldataDecoding {
+  const txHash = event.transaction.hash;
+  const cacheKey = createCalldataCacheKey(event.chainId, txHash);
+
   // Check cache first
-  const cached = decodedCalldataCache.get(txHash);
+  const cached = decodedCalldataCache.get(cacheKey);
   if (cached) {
     return cached;
   }
 
-  // Try to decode calldata
-  if (!input || !isExecuteCalldata(input)) {
-    return null;
+  // Try to decode calldata, which may be wrapped in Multicall3, Safe or ERC-4337 calls
+  // Note: transaction.input and to are available because they are in field_selection
+  const { input, to } = event.transaction as { hash: string; input?: string; to?: string };
+  const version = protocolAdapterVersionRegistry.resolve(
+    event.chainId,
+    event.srcAddress,
+    event.block.number
+  );
+  const executeCalls = input
+    ? findExecuteCalls(input, { protocolAdapter: event.srcAddress, to, version })
+    : [];
+
+  let decoding: CalldataDecoding;
+  if (!input || input === "0x") {
+    decoding = { success: false, code: "empty_input", error: "Empty calldata" };
+  } else if (executeCalls.length === 0) {
+    const selector = input.slice(0, 10).toLowerCase();
+    decoding = {
+      success: false,
+      code: "unknown_selector",
+      error: `No execute() call found in calldata with selector ${selector}`,
+      selector,
+    };
+  } else {
+    // Calls that fail to decode are skipped; the first failure is kept if none decodes
+    const calls: DecodedCalldata[] = [];
+    let failure: DecodedTransactionError | undefined;
+    for (const executeCall of executeCalls) {
+      const result = decodeExecuteCalldata(executeCall.calldata, version);
+      if (result.success) {
+        calls.push({
+          actions: result.transaction.actions,
+          deltaProof: result.transaction.deltaProof,
+          aggregationProof: result.transaction.aggregationProof,
+          version: result.version,
+          wrapperPath: executeCall.wrapperPath,
+        });
+      } else {
+        failure ??= result;
+      }
+    }
+    decoding = failure && calls.length === 0 ? failure : { success: true, calls };
   }
 
-  const result = decodeExecuteCalldata(input);
-  if (!result.success) {
-    console.log(`Failed to decode calldata for tx ${txHash}: ${result.error}`);
-    return null;
+  if (!decoding.success) {
+    console.log(`Failed to decode calldata for tx ${txHash}: ${decoding.error}`);
   }
 
   // Cache the result
-  const decoded = {
-    actions: result.transaction.actions,
-    deltaProof: result.transaction.deltaProof,
-    aggregationProof: result.transaction.aggregationProof,
+  decodedCalldataCache.set(cacheKey, decoding);
+  return decoding;
+}
+
+/**
+ * The decoded execute() call an event belongs to and the Anoma transaction it is indexed as.
+ */
+type ExecuteCall = {
+  decoding: CalldataDecoding;
+  decoded: DecodedCalldata | null;
+  callIndex: number | undefined; // Position among the decoded calls, unset if none matches
+  // Entry of the EVMTransaction action counts: the call's position, or the single entry if at
+  // most one call was decoded. Unset for an event of a batch matching no call
+  countIndex: number | undefined;
+  txId: string;
+};
+
+/**
+ * Resolve the decoded execute() call an event belongs to: the first call it matches, or the
+ * only call even if it does not match, so that its mismatches are reported.
+ *
+ * Each call of a batch is indexed as its own transaction, keyed by its position. Events of a
+ * batch matching no call cannot be attributed and fall back to the EVM transaction's ID.
+ */
+function resolveExecuteCall(
+  event: {
+    chainId: number;
+    srcAddress: string;
+    block: { number: number };
+    transaction: { hash: string };
+  },
+  matches: (calldata: DecodedCalldata) => boolean
+): ExecuteCall {
+  const decoding = decodeTransactionCalldata(event);
+  const calls = decoding.success ? decoding.calls : [];
+  const matched = calls.findIndex(matches);
+  const callIndex = matched >= 0 ? matched : calls.length === 1 ? 0 : undefined;
+
+  return {
+    decoding,
+    decoded: callIndex === undefined ? null : calls[callIndex],
+    callIndex,
+    countIndex: calls.length > 1 ? callIndex : 0,
+    txId: createTransactionId(
+      event.chainId,
+      event.transaction.hash,
+      calls.length > 1 ? callIndex : undefined
+    ),
+  };
+}
+
+/**
+ * Matches the execute() call whose logic input tags, in action order, are the given tags.
+ */
+function hasTags(tags: readonly string[]): (calldata: DecodedCalldata) => boolean {
+  return (calldata) => {
+    const logicInputs = calldata.actions.flatMap((action) => action.logicVerifierInputs);
+    return (
+      logicInputs.length === tags.length &&
+      logicInputs.every((li, index) => li.tag.toLowerCase() === tags[index].toLowerCase())
+    );
   };
-  decodedCalldataCache.set(txHash, decoded);
+}
 
-  return decoded;
+/**
+ * Matches the execute() call containing a logic input for the given tag.
+ */
+function hasTag(tag: string): (calldata: DecodedCalldata) => boolean {
+  return (calldata) => findLogicInputForTag(calldata, tag) !== undefined;
 }
 
 /**
  * Clear cache entry after transaction is fully processed.
  */
-function clearDecodedCache(txHash: string): void {
-  decodedCalldataCache.delete(txHash);
+function clearDecodedCache(chainId: number, txHash: string): void {
+  decodedCalldataCache.delete(createCalldataCacheKey(chainId, txHash));
 }
 
 // ============================================
-// TransactionExecuted Handler
+// Application Payload Decoding
 // ============================================
-// This event fires LAST in the transaction, after all payload events.
-// It provides the authoritative list of tags and their consumed/created status.
+// Payload events are matched to their ExpirableBlob in the decoded calldata, and their blobs
+// are decoded by the application decoder registered for the logicRef of the resource they
+// belong to (see src/decoders/apps).
+
+type ApplicationPayloadFields = {
+  decoded: JsonValue | undefined;
+  decoderName: string | undefined;
+  decoderVersion: string | undefined;
+  decoderError: string | undefined;
+};
 
-ProtocolAdapter.TransactionExecuted.handler(async ({ event, context }: TransactionExecutedArgs) => {
+/**
+ * Finds the logic verifier input of the resource with the given tag in decoded calldata.
+ * Payload events fire before TransactionExecuted, so the calldata is the only source for
+ * the resource's logicRef and the full ExpirableBlobs of its AppData.
+ */
+function findLogicInputForTag(
+  decoded: DecodedCalldata | null,
+  tag: string
+): LogicVerifierInput | undefined {
+  const tagLower = tag.toLowerCase();
+  for (const action of decoded?.actions ?? []) {
+    for (const li of action.logicVerifierInputs) {
+      if (li.tag.toLowerCase() === tagLower) {
+        return li;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * AppData field holding the blobs of each payload kind.
+ */
+const APP_DATA_FIELDS: Record<PayloadDecoderKind, keyof AppData> = {
+  resource: "resourcePayload",
+  discovery: "discoveryPayload",
+  external: "externalPayload",
+  application: "applicationPayload",
+};
+
+type CalldataBlobFields = {
+  deletionCriterion: Payload["deletionCriterion"];
+  blobMismatch: boolean | undefined;
+};
+
+/**
+ * Matches a payload event to the ExpirableBlob with the same tag, kind and index in the
+ * decoded calldata. The blob is flagged as mismatched if no such blob exists or its bytes
+ * differ from the event's. Both fields stay undefined if the calldata could not be decoded.
+ */
+function correlateCalldataBlob(
+  decoded: DecodedCalldata | null,
+  kind: PayloadDecoderKind,
+  params: { tag: string; index: bigint; blob: string }
+): CalldataBlobFields {
+  if (!decoded) {
+    return { deletionCriterion: undefined, blobMismatch: undefined };
+  }
+
+  const logicInput = findLogicInputForTag(decoded, params.tag);
+  const calldataBlob = logicInput?.appData[APP_DATA_FIELDS[kind]][Number(params.index)];
+  if (!calldataBlob) {
+    return { deletionCriterion: undefined, blobMismatch: true };
+  }
+
+  return {
+    deletionCriterion:
+      calldataBlob.deletionCriterion === DeletionCriterion.Never ? "never" : "immediately",
+    blobMismatch: calldataBlob.blob.toLowerCase() !== params.blob.toLowerCase(),
+  };
+}
+
+/**
+ * Decodes a payload blob with the application decoder registered for the logicRef, if any.
+ */
+function decodeApplicationPayload(
+  kind: PayloadDecoderKind,
+  logicRef: string | undefined,
+  params: { tag: string; index: bigint; blob: string }
+): ApplicationPayloadFields {
+  const result = logicRef
+    ? payloadDecoderRegistry.decode({
+        kind,
+        logicRef: logicRef as Hex,
+        tag: params.tag as Hex,
+        index: Number(params.index),
+        blob: params.blob as Hex,
+      })
+    : null;
+
+  return {
+    decoded: result && !result.error ? result.data : undefined,
+    decoderName: result?.decoderName,
+    decoderVersion: result?.decoderVersion,
+    decoderError: result?.error,
+  };
+}
+
+// ============================================
+// Resource Linking
+// ============================================
+// Events within a transaction may be processed in any order, so links between Resources,
+// ComplianceUnits and LogicInputs are resolved from deterministic IDs and completed by
+// whichever handler runs last.
+
+type TransactionLinks = {
+  nullifierToComplianceUnit: Map<string, string>;
+  commitmentToComplianceUnit: Map<string, string>;
+  tagToLogicInput: Map<string, string>;
+};
+
+/**
+ * Builds maps from lowercased tags to the ComplianceUnit and LogicInput IDs
+ * that ActionExecuted creates for the decoded actions of a transaction.
+ */
+function buildTransactionLinks(txId: string, decoded: DecodedCalldata | null): TransactionLinks {
+  const links: TransactionLinks = {
+    nullifierToComplianceUnit: new Map(),
+    commitmentToComplianceUnit: new Map(),
+    tagToLogicInput: new Map(),
+  };
+
+  if (!decoded) {
+    return links;
+  }
+
+  for (const action of decoded.actions) {
+    const actionId = createActionId(txId, computeActionTreeRoot(action));
+
+    for (let cuIndex = 0; cuIndex < action.complianceVerifierInputs.length; cuIndex++) {
+      const cu = action.complianceVerifierInputs[cuIndex];
+      const complianceUnitId = createComplianceUnitId(actionId, cuIndex);
+      links.nullifierToComplianceUnit.set(
+        cu.instance.consumed.nullifier.toLowerCase(),
+        complianceUnitId
+      );
+      links.commitmentToComplianceUnit.set(
+        cu.instance.created.commitment.toLowerCase(),
+        complianceUnitId
+      );
+    }
+
+    for (let liIndex = 0; liIndex < action.logicVerifierInputs.length; liIndex++) {
+      const li = action.logicVerifierInputs[liIndex];
+      links.tagToLogicInput.set(li.tag.toLowerCase(), createLogicInputId(actionId, liIndex));
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Sets the resource links on ComplianceUnits and LogicInputs that already exist.
+ * Entities that do not exist yet are linked by ActionExecuted when it creates them.
+ */
+async function reconcileTransactionLinks(
+  context: handlerContext,
+  chainId: number,
+  links: TransactionLinks
+): Promise<void> {
+  const complianceUpdates = new Map<string, { consumed?: string; created?: string }>();
+  for (const [nullifier, complianceUnitId] of links.nullifierToComplianceUnit) {
+    const update = complianceUpdates.get(complianceUnitId) ?? {};
+    update.consumed = createResourceId(chainId, nullifier);
+    complianceUpdates.set(complianceUnitId, update);
+  }
+  for (const [commitment, complianceUnitId] of links.commitmentToComplianceUnit) {
+    const update = complianceUpdates.get(complianceUnitId) ?? {};
+    update.created = createResourceId(chainId, commitment);
+    complianceUpdates.set(complianceUnitId, update);
+  }
+
+  for (const [complianceUnitId, update] of complianceUpdates) {
+    const complianceUnit = await context.ComplianceUnit.get(complianceUnitId);
+    if (complianceUnit) {
+      context.ComplianceUnit.set({
+        ...complianceUnit,
+        consumedResource_id: update.consumed ?? complianceUnit.consumedResource_id,
+        createdResource_id: update.created ?? complianceUnit.createdResource_id,
+      });
+    }
+  }
+
+  for (const [tag, logicInputId] of links.tagToLogicInput) {
+    const logicInput = await context.LogicInput.get(logicInputId);
+    if (logicInput) {
+      context.LogicInput.set({
+        ...logicInput,
+        resource_id: createResourceId(chainId, tag),
+      });
+    }
+  }
+}
+
+// ============================================
+// EVM Transaction
+// ============================================
+
+type EVMTransactionEvent = {
+  chainId: number;
+  block: { number: number; timestamp: number };
+  transaction: object;
+};
+
+/**
+ * Builds the EVMTransaction carrying an event,
+ * keeping the ActionExecuted totals of an existing entity.
+ */
+function buildEVMTransaction(
+  event: EVMTransactionEvent,
+  decoding: CalldataDecoding,
+  existing: EVMTransaction | undefined
+): EVMTransaction {
   // Cast transaction to access EVM fields
   const tx = event.transaction as {
     hash: string;
-    input?: string;
     from?: string;
     gas?: bigint;
     gasPrice?: bigint;
@@ -211,17 +791,12 @@ ProtocolAdapter.TransactionExecuted.handler(async ({ event, context }: Transacti
     value?: bigint;
   };
 
-  const txId = createTransactionId(event.chainId, tx.hash);
-  const txHash = tx.hash;
+  const calls = decoding.success ? decoding.calls : [];
+  const emptyCounts = Array<number>(Math.max(calls.length, 1)).fill(0);
 
-  // Try to decode calldata for proofs
-  // Note: event.transaction.input is available because we added "input" to field_selection
-  const decoded = getDecodedTransaction(txHash, tx.input);
-
-  // Create EVMTransaction entity (the carrier/wrapper)
-  const evmTxEntity: EVMTransaction = {
-    id: txId,
-    txHash: txHash,
+  return {
+    id: createTransactionId(event.chainId, tx.hash),
+    txHash: tx.hash,
     blockNumber: event.block.number,
     timestamp: event.block.timestamp,
     chainId: event.chainId,
@@ -230,68 +805,326 @@ ProtocolAdapter.TransactionExecuted.handler(async ({ event, context }: Transacti
     gasPrice: tx.gasPrice,
     gas: tx.gas,
     gasUsed: tx.gasUsed,
+    wrapperPath: calls[0]?.wrapperPath,
+    executeCallCount: calls.length,
+    actionCounts: existing?.actionCounts ?? emptyCounts,
+    actionTagCounts: existing?.actionTagCounts ?? emptyCounts,
+  };
+}
+
+// ============================================
+// Consistency Checks
+// ============================================
+// TransactionExecuted tags and logicRefs are cross-checked against the decoded calldata and
+// the transaction's ActionExecuted events (see src/utils/consistency.ts).
+
+type ConsistencyEvent = { chainId: number; block: { number: number; timestamp: number } };
+
+/**
+ * Create ConsistencyIssue ID: {txId}_{check}, with _{index} for per-tag checks
+ */
+function createConsistencyIssueId(txId: string, violation: ConsistencyViolation): string {
+  return violation.check === "logic_ref_mismatch"
+    ? `${txId}_${violation.check}_${violation.index}`
+    : `${txId}_${violation.check}`;
+}
+
+/**
+ * Stores violations as ConsistencyIssues of the transaction.
+ */
+function recordConsistencyIssues(
+  context: handlerContext,
+  event: ConsistencyEvent,
+  txId: string,
+  violations: readonly ConsistencyViolation[]
+): void {
+  for (const violation of violations) {
+    const issue: ConsistencyIssue = {
+      id: createConsistencyIssueId(txId, violation),
+      chainId: event.chainId,
+      blockNumber: event.block.number,
+      timestamp: event.block.timestamp,
+      check: violation.check,
+      message: violation.message,
+      index: violation.index,
+      expected: violation.expected,
+      actual: violation.actual,
+      transaction_id: txId,
+    };
+    context.ConsistencyIssue.set(issue);
+  }
+}
+
+/**
+ * Checks the ActionExecuted totals of an execute() call against the transaction's tag count.
+ *
+ * Runs for TransactionExecuted and for every ActionExecuted processed after it, so the issue
+ * of an earlier check that did not see all actions yet is removed once the counts match.
+ * Nothing references ConsistencyIssues, so deleting one is safe.
+ */
+async function reconcileActionTagCount(
+  context: handlerContext,
+  event: ConsistencyEvent,
+  call: ExecuteCall,
+  tagCount: number,
+  evmTx: EVMTransaction
+): Promise<void> {
+  // The actions of a batch event matching no call are not counted
+  if (call.countIndex === undefined) {
+    return;
+  }
+
+  const txId = call.txId;
+  const violations = checkActionTagCount(
+    tagCount,
+    evmTx.actionCounts[call.countIndex] ?? 0,
+    evmTx.actionTagCounts[call.countIndex] ?? 0
+  );
+  if (violations.length > 0) {
+    recordConsistencyIssues(context, event, txId, violations);
+    return;
+  }
+
+  const issueId = `${txId}_action_tag_count_mismatch`;
+  if (await context.ConsistencyIssue.get(issueId)) {
+    context.ConsistencyIssue.deleteUnsafe(issueId);
+  }
+}
+
+// ============================================
+// Tag Registry
+// ============================================
+// Nullifier and Commitment keep the first occurrence of every tag on a chain. Resource is
+// keyed the same way and overwritten by later occurrences, so repeats are recorded as
+// TagCollisions that reference both transactions.
+
+type TagCollisionKind = TagCollision["kind"];
+
+/**
+ * Create Nullifier/Commitment ID: {chainId}_{tag}
+ */
+function createTagId(chainId: number, tag: string): string {
+  return `${chainId}_${tag.toLowerCase()}`;
+}
+
+/**
+ * Create TagCollision ID: {txId}_{index}_{kind}
+ */
+function createTagCollisionId(txId: string, index: number, kind: TagCollisionKind): string {
+  return `${txId}_${index}_${kind}`;
+}
+
+type TagOccurrence = {
+  tag: string;
+  index: number;
+  isConsumed: boolean;
+  leafIndex?: number;
+  resourceId: string;
+};
+
+/**
+ * Records a TagCollision between a tag occurrence and the first occurrence of the tag.
+ */
+function recordTagCollision(
+  context: handlerContext,
+  event: ConsistencyEvent,
+  txId: string,
+  occurrence: TagOccurrence,
+  kind: TagCollisionKind,
+  first: Nullifier | Commitment
+): void {
+  const collision: TagCollision = {
+    id: createTagCollisionId(txId, occurrence.index, kind),
+    chainId: event.chainId,
+    tag: first.tag,
+    kind,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    index: occurrence.index,
+    firstBlockNumber: first.blockNumber,
+    firstIndex: first.index,
+    transaction_id: txId,
+    firstTransaction_id: first.transaction_id,
+  };
+  context.TagCollision.set(collision);
+}
+
+/**
+ * Registers a tag of TransactionExecuted as a Nullifier or Commitment.
+ *
+ * The first occurrence is kept; a repeated nullifier or commitment, or a tag already published
+ * in the other role, is recorded as a TagCollision.
+ */
+async function registerTag(
+  context: handlerContext,
+  event: ConsistencyEvent,
+  txId: string,
+  occurrence: TagOccurrence
+): Promise<void> {
+  const id = createTagId(event.chainId, occurrence.tag);
+  const nullifier = await context.Nullifier.get(id);
+  const commitment = await context.Commitment.get(id);
+  const base = {
+    id,
+    tag: occurrence.tag,
+    chainId: event.chainId,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    index: occurrence.index,
+    occurrenceCount: 1,
+    transaction_id: txId,
+    resource_id: occurrence.resourceId,
+  };
+
+  if (occurrence.isConsumed) {
+    if (nullifier) {
+      recordTagCollision(context, event, txId, occurrence, "repeated_nullifier", nullifier);
+    }
+    context.Nullifier.set(
+      nullifier ? { ...nullifier, occurrenceCount: nullifier.occurrenceCount + 1 } : base
+    );
+    if (commitment) {
+      recordTagCollision(context, event, txId, occurrence, "nullifier_commitment", commitment);
+    }
+  } else {
+    if (commitment) {
+      recordTagCollision(context, event, txId, occurrence, "repeated_commitment", commitment);
+    }
+    context.Commitment.set(
+      commitment
+        ? { ...commitment, occurrenceCount: commitment.occurrenceCount + 1 }
+        : { ...base, leafIndex: occurrence.leafIndex }
+    );
+    if (nullifier) {
+      recordTagCollision(context, event, txId, occurrence, "nullifier_commitment", nullifier);
+    }
+  }
+}
+
+// ============================================
+// TransactionExecuted Handler
+// ============================================
+// This event fires LAST in the transaction, after all payload events.
+// It provides the authoritative list of tags and their consumed/created status.
+
+ProtocolAdapter.TransactionExecuted.handler(async ({ event, context }: TransactionExecutedArgs) => {
+  // Cast transaction to access EVM fields
+  const tx = event.transaction as {
+    hash: string;
+    input?: string;
+    from?: string;
+    gas?: bigint;
+    gasPrice?: bigint;
+    gasUsed?: bigint;
+    value?: bigint;
   };
 
+  const txHash = tx.hash;
+
+  // Try to decode calldata for proofs, and key the transaction by the execute() call it matches
+  const call = resolveExecuteCall(event, hasTags(event.params.tags));
+  const { decoding, decoded, txId } = call;
+
+  // Create EVMTransaction entity (the carrier/wrapper)
+  const evmTxId = createTransactionId(event.chainId, txHash);
+  const existingEvmTx = await context.EVMTransaction.get(evmTxId);
+  const evmTxEntity = buildEVMTransaction(event, decoding, existingEvmTx);
+
   context.EVMTransaction.set(evmTxEntity);
 
+  // Snapshot of the adapter state (pause flag and owner) at execution time
+  const adapterState = await getAdapterState(context, event);
+
+  // PA-EVM only checks the delta proof of transactions with tags. A decoded call whose tags
+  // differ from the event's is not the executed one, so its proof is not checked against them
+  const delta =
+    decoded && event.params.tags.length > 0 && hasTags(event.params.tags)(decoded)
+      ? await verifyDeltaProof(
+          decoded.actions,
+          event.params.tags as Hex[],
+          decoded.deltaProof as Hex
+        )
+      : undefined;
+
+  // PA-EVM verifies the aggregation proof instead of the per-unit proofs when it is non-empty
+  let proofMode: Transaction["proofMode"];
+  if (decoded) {
+    proofMode = size(decoded.aggregationProof as Hex) > 0 ? "aggregated" : "per_unit";
+  }
+  const deltaProofId = await recordProof(context, "delta", decoded?.deltaProof);
+  const aggregationProofId = await recordProof(context, "aggregation", decoded?.aggregationProof);
+
   // Create Transaction entity (Anoma Transaction payload)
   const txEntity: Transaction = {
     id: txId,
     logIndex: event.logIndex,
     contractAddress: event.srcAddress,
+    executeCallIndex: call.callIndex,
     tags: event.params.tags,
     logicRefs: event.params.logicRefs,
+    adapterPaused: adapterState.paused,
+    adapterOwner: adapterState.owner,
     deltaProof: decoded?.deltaProof,
     aggregationProof: decoded?.aggregationProof,
-    evmTransaction_id: txId,
+    transactionDeltaX: delta?.transactionDelta
+      ? numberToHex(delta.transactionDelta.x, { size: 32 })
+      : undefined,
+    transactionDeltaY: delta?.transactionDelta
+      ? numberToHex(delta.transactionDelta.y, { size: 32 })
+      : undefined,
+    deltaVerified: delta?.verified,
+    deltaError: delta?.error,
+    proofMode,
+    deltaProofMetadata_id: deltaProofId,
+    aggregationProofMetadata_id: aggregationProofId,
+    protocolAdapterVersion_id: decoded?.version,
+    evmTransaction_id: evmTxId,
   };
 
   context.Transaction.set(txEntity);
 
-  // Build a map from nullifier/commitment to compliance unit ID for linking resources
-  // This requires looking at all compliance units from all actions
-  const nullifierToComplianceUnit = new Map<string, string>();
-  const commitmentToComplianceUnit = new Map<string, string>();
-  const tagToLogicInput = new Map<string, string>();
-
   if (decoded) {
-    for (let actionIndex = 0; actionIndex < decoded.actions.length; actionIndex++) {
-      const action = decoded.actions[actionIndex];
-      // We need to find the action ID - it's based on actionTreeRoot which we can compute
-      // For now, we'll iterate through actions and match by index
-      // The ActionExecuted events have already created Action entities
-
-      // Get all actions for this transaction to find the matching actionId
-      // Since we can't easily query by transaction here, we'll construct the ID
-      // based on the pattern used in ActionExecuted handler
-
-      // Compliance units
-      for (let cuIndex = 0; cuIndex < action.complianceVerifierInputs.length; cuIndex++) {
-        const cu = action.complianceVerifierInputs[cuIndex];
-        // We need the actionId to construct compliance unit ID
-        // The ActionExecuted handler uses: `${txId}_${actionTreeRoot}`
-        // We don't have actionTreeRoot here directly, so we'll use action index
-        // This means we need to update how we track this...
-
-        // For now, store by nullifier/commitment directly
-        nullifierToComplianceUnit.set(
-          cu.instance.consumed.nullifier.toLowerCase(),
-          `action_${actionIndex}_compliance_${cuIndex}`
-        );
-        commitmentToComplianceUnit.set(
-          cu.instance.created.commitment.toLowerCase(),
-          `action_${actionIndex}_compliance_${cuIndex}`
-        );
-      }
-
-      // Logic inputs - map tag to logic input
-      for (let liIndex = 0; liIndex < action.logicVerifierInputs.length; liIndex++) {
-        const li = action.logicVerifierInputs[liIndex];
-        tagToLogicInput.set(li.tag.toLowerCase(), `action_${actionIndex}_logic_${liIndex}`);
-      }
-    }
+    await recordProtocolAdapterVersion(context, decoded.version);
+  } else if (!decoding.success) {
+    // Record why the transaction has no decoded actions, so failures can be triaged
+    const failure: DecodingFailure = {
+      id: txId,
+      chainId: event.chainId,
+      blockNumber: event.block.number,
+      timestamp: event.block.timestamp,
+      txHash: txHash,
+      code: decoding.code,
+      message: decoding.error,
+      selector: decoding.selector,
+      offset: decoding.offset,
+      transaction_id: txId,
+    };
+    context.DecodingFailure.set(failure);
   }
 
+  // Cross-check the event against the calldata and the ActionExecuted events
+  recordConsistencyIssues(context, event, txId, [
+    ...checkTagCount(event.params.tags),
+    ...checkExecuteCallCount(decoding.success ? decoding.calls.length : 0),
+    ...(decoded
+      ? checkCalldataTags(event.params.tags, event.params.logicRefs, decoded.actions)
+      : []),
+  ]);
+  await reconcileActionTagCount(context, event, call, event.params.tags.length, evmTxEntity);
+
+  // Resolve the real ComplianceUnit/LogicInput IDs for every tag from the decoded calldata
+  const links = buildTransactionLinks(txId, decoded);
+
+  // Created resources are appended to the commitment tree in tag order
+  const commitmentTree = await getCommitmentTree(context, event.chainId, event.block.number);
+  const merkleTree = new IncrementalMerkleTree(
+    commitmentTree.frontier as Hex[],
+    commitmentTree.leafCount
+  );
+  const commitments = event.params.tags.filter((_, index) => !isConsumedIndex(index)) as Hex[];
+  const appended = merkleTree.appendAll(commitments);
+  let commitmentIndex = 0;
+
   // Update/Create Resource entities for each tag
   // Tags are in alternating order: consumed (nullifier), created (commitment), ...
   for (let index = 0; index < event.params.tags.length; index++) {
@@ -299,13 +1132,27 @@ ProtocolAdapter.TransactionExecuted.handler(async ({ event, context }: Transacti
     const isConsumed = isConsumedIndex(index);
     const resourceId = createResourceId(event.chainId, tag);
     const logicRef = event.params.logicRefs[index];
-    const _tagLower = tag.toLowerCase();
+    const tagLower = tag.toLowerCase();
+    const leafPosition = isConsumed ? undefined : commitmentIndex++;
+    const leafIndex = leafPosition === undefined ? undefined : appended.indices[leafPosition];
+    const merklePath = leafPosition === undefined ? undefined : appended.paths[leafPosition];
+    const merklePathRoot = leafPosition === undefined ? undefined : appended.root;
 
     // Find linked compliance unit and logic input
-    // Note: complianceUnit_id will be set by ActionExecuted handler
-    // We use isConsumed to determine which side of the compliance unit this resource is on
-    let complianceUnit_id: string | undefined;
-    let logicInput_id: string | undefined;
+    // The resource's isConsumed flag determines which side of the compliance unit it is on
+    const complianceUnit_id = isConsumed
+      ? links.nullifierToComplianceUnit.get(tagLower)
+      : links.commitmentToComplianceUnit.get(tagLower);
+    const logicInput_id = links.tagToLogicInput.get(tagLower);
+
+    await registerTag(context, event, txId, { tag, index, isConsumed, leafIndex, resourceId });
+    await recordTagAppearance(context, event, {
+      tag,
+      index,
+      isConsumed,
+      transactionId: txId,
+      resourceId,
+    });
 
     // Check if resource already exists (created by earlier ResourcePayload event)
     const existingResource = await context.Resource.get(resourceId);
@@ -316,11 +1163,17 @@ ProtocolAdapter.TransactionExecuted.handler(async ({ event, context }: Transacti
         ...existingResource,
         index: index,
         isConsumed: isConsumed,
+        leafIndex: leafIndex,
+        merklePath: merklePath,
+        merklePathRoot: merklePathRoot,
         transaction_id: txId,
         logicRef: logicRef || existingResource.logicRef,
-        // Keep existing links if already set
-        logicInput_id: existingResource.logicInput_id || logicInput_id,
-        complianceUnit_id: existingResource.complianceUnit_id || complianceUnit_id,
+        application_id: logicRef
+          ? createApplicationId(event.chainId, logicRef)
+          : existingResource.application_id,
+        // Links resolved from calldata take precedence over earlier links
+        logicInput_id: logicInput_id || existingResource.logicInput_id,
+        complianceUnit_id: complianceUnit_id || existingResource.complianceUnit_id,
       };
       context.Resource.set(updatedResource);
     } else {
@@ -333,11 +1186,27 @@ ProtocolAdapter.TransactionExecuted.handler(async ({ event, context }: Transacti
         isConsumed: isConsumed,
         blockNumber: event.block.number,
         chainId: event.chainId,
+        leafIndex: leafIndex,
+        merklePath: merklePath,
+        merklePathRoot: merklePathRoot,
+        labelRef: undefined,
+        valueRef: undefined,
+        nullifierKeyCommitment: undefined,
+        nonce: undefined,
+        quantity: undefined,
+        ephemeral: undefined,
         rawBlob: "",
         decodingStatus: "pending",
         decodingError: undefined,
+        decoded: undefined,
+        decoderName: undefined,
+        decoderVersion: undefined,
+        decoderError: undefined,
+        blobDeletionCriterion: undefined,
+        blobMismatch: undefined,
         transaction_id: txId,
         logicRef: logicRef || undefined,
+        application_id: logicRef ? createApplicationId(event.chainId, logicRef) : undefined,
         logicInput_id: logicInput_id,
         complianceUnit_id: complianceUnit_id,
       };
@@ -345,8 +1214,62 @@ ProtocolAdapter.TransactionExecuted.handler(async ({ event, context }: Transacti
     }
   }
 
+  context.CommitmentTree.set({
+    ...commitmentTree,
+    leafCount: merkleTree.leafCount,
+    frontier: merkleTree.frontier,
+    lastComputedRoot: appended.root,
+    lastComputedTxHash: txHash,
+    lastUpdatedBlock: event.block.number,
+  });
+
+  // The root of this transaction is added before TransactionExecuted is emitted,
+  // so it was recorded without this transaction's commitments and could not be verified yet
+  if (commitmentTree.lastRootId && commitmentTree.lastRootTxHash === txHash) {
+    const root = await context.CommitmentTreeRoot.get(commitmentTree.lastRootId);
+    if (root) {
+      context.CommitmentTreeRoot.set(
+        verifyCommitmentTreeRoot({ ...root, leafCount: merkleTree.leafCount }, appended.root)
+      );
+    }
+  }
+
+  // Link both sides of compliance units and logic inputs created by earlier ActionExecuted events
+  await reconcileTransactionLinks(context, event.chainId, links);
+
+  // Count this transaction and its resources once per application
+  const applicationDeltas = new Map<string, ApplicationDelta>();
+  event.params.logicRefs.forEach((logicRef, index) => {
+    if (!logicRef) {
+      return;
+    }
+    const delta = applicationDeltas.get(logicRef.toLowerCase()) ?? { transactionCount: 1 };
+    if (isConsumedIndex(index)) {
+      delta.consumedResourceCount = (delta.consumedResourceCount ?? 0) + 1;
+    } else {
+      delta.createdResourceCount = (delta.createdResourceCount ?? 0) + 1;
+    }
+    applicationDeltas.set(logicRef.toLowerCase(), delta);
+  });
+  for (const [logicRef, delta] of applicationDeltas) {
+    await updateApplication(context, event, logicRef, delta);
+  }
+
+  await updateChainStats(context, event, {
+    transactionCount: 1,
+    consumedResourceCount: event.params.tags.length - commitments.length,
+    createdResourceCount: commitments.length,
+    gasUsed: tx.gasUsed ?? 0n,
+  });
+  await updateActivity(context, event, {
+    transactionCount: 1,
+    consumedResourceCount: event.params.tags.length - commitments.length,
+    createdResourceCount: commitments.length,
+    gasUsed: tx.gasUsed ?? 0n,
+  });
+
   // Clear the cache after processing is complete
-  clearDecodedCache(txHash);
+  clearDecodedCache(event.chainId, txHash);
 });
 
 // ============================================
@@ -356,48 +1279,30 @@ ProtocolAdapter.TransactionExecuted.handler(async ({ event, context }: Transacti
 // We decode the calldata here to create ComplianceUnit and LogicInput entities.
 
 ProtocolAdapter.ActionExecuted.handler(async ({ event, context }: ActionExecutedArgs) => {
-  const txId = createTransactionId(event.chainId, event.transaction.hash);
   const txHash = event.transaction.hash;
-  // Use txHash + actionTreeRoot for unique action ID since multiple actions can be in one tx
-  const actionId = `${txId}_${event.params.actionTreeRoot}`;
 
   // Try to decode calldata to get action details
-  const txInput = (event.transaction as { hash: string; input?: string }).input;
-  const decoded = getDecodedTransaction(txHash, txInput);
+  const call = resolveExecuteCall(
+    event,
+    (calldata) => findActionIndexByTreeRoot(calldata.actions, event.params.actionTreeRoot) >= 0
+  );
+  const { decoded, txId } = call;
+  // Use txHash + actionTreeRoot for unique action ID since multiple actions can be in one tx
+  const actionId = createActionId(txId, event.params.actionTreeRoot);
 
-  // Find which action index this is by matching actionTreeRoot
-  // For now, we'll try to match by index since we process actions in order
-  let actionIndex = 0;
+  // Find the decoded action by recomputing each action's tree root from its tags
+  // and matching it against the root emitted by the event.
+  let actionIndex = -1;
   let decodedAction: DecodedAction | null = null;
 
   if (decoded) {
-    // Try to find the action by comparing actionTreeRoot
-    // The actionTreeRoot is computed from the action data
-    // Since we can't easily compute it here, we'll use the order of ActionExecuted events
-    // by tracking how many we've seen for this transaction
-
-    // Simple approach: assume actions are processed in order
-    // Count existing actions for this transaction
-    // Note: This is a limitation - we're assuming sequential processing
-    // A more robust solution would compute the actionTreeRoot from decoded data
-
-    // For now, we'll iterate and pick the first action that hasn't been assigned
-    // Since ActionExecuted events come in order, this should work
-    for (let i = 0; i < decoded.actions.length; i++) {
-      const potentialAction = decoded.actions[i];
-      // Check if this action's tag count matches
-      if (potentialAction.logicVerifierInputs.length === Number(event.params.actionTagCount)) {
-        // Likely match - use this action
-        decodedAction = potentialAction;
-        actionIndex = i;
-        break;
-      }
-    }
-
-    // If no match by tag count, just use index 0 (fallback)
-    if (!decodedAction && decoded.actions.length > 0) {
-      decodedAction = decoded.actions[0];
-      actionIndex = 0;
+    actionIndex = findActionIndexByTreeRoot(decoded.actions, event.params.actionTreeRoot);
+    if (actionIndex >= 0) {
+      decodedAction = decoded.actions[actionIndex];
+    } else {
+      console.log(
+        `No decoded action matches actionTreeRoot ${event.params.actionTreeRoot} in tx ${txHash}`
+      );
     }
   }
 
@@ -407,6 +1312,7 @@ ProtocolAdapter.ActionExecuted.handler(async ({ event, context }: ActionExecuted
     index: actionIndex,
     actionTreeRoot: event.params.actionTreeRoot,
     tagCount: Number(event.params.actionTagCount),
+    actionTreeRootMismatch: decoded !== null && decodedAction === null,
     blockNumber: event.block.number,
     chainId: event.chainId,
     timestamp: event.block.timestamp,
@@ -415,11 +1321,40 @@ ProtocolAdapter.ActionExecuted.handler(async ({ event, context }: ActionExecuted
 
   context.Action.set(actionEntity);
 
+  // Count the action on its execute() call for the tag count check
+  const { countIndex } = call;
+  if (countIndex !== undefined) {
+    const existingEvmTx = await context.EVMTransaction.get(
+      createTransactionId(event.chainId, txHash)
+    );
+    const evmTx = existingEvmTx ?? buildEVMTransaction(event, call.decoding, undefined);
+    const evmTxEntity: EVMTransaction = {
+      ...evmTx,
+      actionCounts: evmTx.actionCounts.map((count, index) =>
+        index === countIndex ? count + 1 : count
+      ),
+      actionTagCounts: evmTx.actionTagCounts.map((count, index) =>
+        index === countIndex ? count + actionEntity.tagCount : count
+      ),
+    };
+    context.EVMTransaction.set(evmTxEntity);
+
+    // Actions processed after TransactionExecuted complete its tag count check
+    const transaction = await context.Transaction.get(txId);
+    if (transaction) {
+      await reconcileActionTagCount(context, event, call, transaction.tags.length, evmTxEntity);
+    }
+  }
+
   // Create ComplianceUnit entities from decoded action
   if (decodedAction) {
+    // Match logic inputs to compliance units by tag
+    const match = matchLogicInputs(decodedAction);
+
     for (let cuIndex = 0; cuIndex < decodedAction.complianceVerifierInputs.length; cuIndex++) {
       const cu = decodedAction.complianceVerifierInputs[cuIndex];
       const complianceUnitId = createComplianceUnitId(actionId, cuIndex);
+      const unitMatch = match.complianceUnits[cuIndex];
 
       // Find resources by nullifier/commitment
       const consumedResourceId = createResourceId(event.chainId, cu.instance.consumed.nullifier);
@@ -429,17 +1364,39 @@ ProtocolAdapter.ActionExecuted.handler(async ({ event, context }: ActionExecuted
       const consumedResource = await context.Resource.get(consumedResourceId);
       const createdResource = await context.Resource.get(createdResourceId);
 
+      // Resolve the root the consumed resource is proven against
+      const root = await findCommitmentTreeRoot(
+        context,
+        event.chainId,
+        cu.instance.consumed.commitmentTreeRoot
+      );
+
       const complianceEntity: ComplianceUnit = {
         id: complianceUnitId,
         index: cuIndex,
         proof: cu.proof || undefined,
+        proofMetadata_id: await recordProof(context, "compliance", cu.proof),
         consumedNullifier: cu.instance.consumed.nullifier,
         consumedLogicRef: cu.instance.consumed.logicRef,
         consumedCommitmentTreeRoot: cu.instance.consumed.commitmentTreeRoot,
+        commitmentTreeRoot_id: root?.id,
+        commitmentTreeRootIndex: root?.index,
+        commitmentTreeRootAge: root ? event.block.number - root.blockNumber : undefined,
+        unknownCommitmentTreeRoot: root === undefined,
         createdCommitment: cu.instance.created.commitment,
         createdLogicRef: cu.instance.created.logicRef,
         unitDeltaX: cu.instance.unitDeltaX,
         unitDeltaY: cu.instance.unitDeltaY,
+        consumedLogicInput_id:
+          unitMatch.consumedLogicInputIndex >= 0
+            ? createLogicInputId(actionId, unitMatch.consumedLogicInputIndex)
+            : undefined,
+        createdLogicInput_id:
+          unitMatch.createdLogicInputIndex >= 0
+            ? createLogicInputId(actionId, unitMatch.createdLogicInputIndex)
+            : undefined,
+        consumedLogicRefMismatch: unitMatch.consumedLogicRefMismatch,
+        createdLogicRefMismatch: unitMatch.createdLogicRefMismatch,
         action_id: actionId,
         consumedResource_id: consumedResource ? consumedResourceId : undefined,
         createdResource_id: createdResource ? createdResourceId : undefined,
@@ -470,27 +1427,39 @@ ProtocolAdapter.ActionExecuted.handler(async ({ event, context }: ActionExecuted
     for (let liIndex = 0; liIndex < decodedAction.logicVerifierInputs.length; liIndex++) {
       const li = decodedAction.logicVerifierInputs[liIndex];
       const logicInputId = createLogicInputId(actionId, liIndex);
+      const liMatch = match.logicInputs[liIndex];
 
-      // Determine if consumed based on index (even = consumed, odd = created)
-      const isConsumed = isConsumedIndex(liIndex);
+      // A tag is consumed if it is a compliance unit's nullifier. Without a unit holding the
+      // tag, fall back to the index convention (even = consumed, odd = created)
+      const isConsumed = liMatch.isConsumed ?? isConsumedIndex(liIndex);
 
       // Find resource by tag
       const resourceId = createResourceId(event.chainId, li.tag);
       const resource = await context.Resource.get(resourceId);
 
+      // Make sure the application exists before linking it; TransactionExecuted counts it
+      await updateApplication(context, event, li.verifyingKey, {});
+
       const logicEntity: LogicInput = {
         id: logicInputId,
         index: liIndex,
         tag: li.tag,
         logicRef: li.verifyingKey, // verifyingKey in PA-EVM is the logicRef
         isConsumed: isConsumed,
+        complianceUnit_id:
+          liMatch.complianceUnitIndex >= 0
+            ? createComplianceUnitId(actionId, liMatch.complianceUnitIndex)
+            : undefined,
+        logicRefMismatch: liMatch.logicRefMismatch,
         proof: li.proof || undefined,
+        proofMetadata_id: await recordProof(context, "logic", li.proof),
         resourcePayloadCount: li.appData.resourcePayload.length,
         discoveryPayloadCount: li.appData.discoveryPayload.length,
         externalPayloadCount: li.appData.externalPayload.length,
         applicationPayloadCount: li.appData.applicationPayload.length,
         action_id: actionId,
         resource_id: resource ? resourceId : undefined,
+        application_id: createApplicationId(event.chainId, li.verifyingKey),
       };
 
       context.LogicInput.set(logicEntity);
@@ -505,6 +1474,13 @@ ProtocolAdapter.ActionExecuted.handler(async ({ event, context }: ActionExecuted
       }
     }
   }
+
+  await updateChainStats(context, event, {
+    actionCount: 1,
+    complianceUnitCount: decodedAction?.complianceVerifierInputs.length ?? 0,
+    logicInputCount: decodedAction?.logicVerifierInputs.length ?? 0,
+  });
+  await updateActivity(context, event, { actionCount: 1 });
 });
 
 // ============================================
@@ -515,14 +1491,30 @@ ProtocolAdapter.ActionExecuted.handler(async ({ event, context }: ActionExecuted
 
 ProtocolAdapter.ResourcePayload.handler(async ({ event, context }: ResourcePayloadArgs) => {
   const resourceId = createResourceId(event.chainId, event.params.tag);
-  const txId = createTransactionId(event.chainId, event.transaction.hash);
 
   // Decode the blob
   const decoded = safeDecodeResourceBlob(event.params.blob);
+  const decodedResourceFields = {
+    labelRef: decoded.resource?.labelRef,
+    valueRef: decoded.resource?.valueRef,
+    nullifierKeyCommitment: decoded.resource?.nullifierKeyCommitment,
+    nonce: decoded.resource?.nonce,
+    quantity: decoded.resource?.quantity,
+    ephemeral: decoded.resource?.ephemeral,
+  };
 
   // Check if resource already exists
   const existingResource = await context.Resource.get(resourceId);
 
+  // Match the blob to the calldata and decode it with the application decoder
+  // for the resource's logicRef
+  const { decoded: decodedCalldata, txId } = resolveExecuteCall(event, hasTag(event.params.tag));
+  const calldataBlob = correlateCalldataBlob(decodedCalldata, "resource", event.params);
+  const logicRef =
+    existingResource?.logicRef ??
+    findLogicInputForTag(decodedCalldata, event.params.tag)?.verifyingKey;
+  const applicationFields = decodeApplicationPayload("resource", logicRef, event.params);
+
   if (existingResource) {
     // Update existing resource with blob data (preserve isConsumed if already set)
     const updatedResource: Resource = {
@@ -531,6 +1523,10 @@ ProtocolAdapter.ResourcePayload.handler(async ({ event, context }: ResourcePaylo
       rawBlob: event.params.blob,
       decodingStatus: decoded.status,
       decodingError: decoded.error || undefined,
+      ...decodedResourceFields,
+      ...applicationFields,
+      blobDeletionCriterion: calldataBlob.deletionCriterion,
+      blobMismatch: calldataBlob.blobMismatch,
       // logicRef comes from TransactionExecuted, not from blob decoding
       logicRef: existingResource.logicRef,
     };
@@ -546,16 +1542,34 @@ ProtocolAdapter.ResourcePayload.handler(async ({ event, context }: ResourcePaylo
       isConsumed: false, // Placeholder - will be set correctly by TransactionExecuted
       blockNumber: event.block.number,
       chainId: event.chainId,
+      leafIndex: undefined, // Will be set by TransactionExecuted
+      merklePath: undefined,
+      merklePathRoot: undefined,
       rawBlob: event.params.blob,
       decodingStatus: decoded.status,
       decodingError: decoded.error || undefined,
+      ...decodedResourceFields,
+      ...applicationFields,
+      blobDeletionCriterion: calldataBlob.deletionCriterion,
+      blobMismatch: calldataBlob.blobMismatch,
       transaction_id: txId,
-      logicRef: undefined, // Will be set by TransactionExecuted
+      // Resolved from the calldata; TransactionExecuted sets it otherwise
+      logicRef: logicRef,
+      application_id: logicRef ? createApplicationId(event.chainId, logicRef) : undefined,
       logicInput_id: undefined,
       complianceUnit_id: undefined,
     };
     context.Resource.set(resourceEntity);
   }
+
+  await updateChainStats(context, event, { resourcePayloadCount: 1 });
+  if (logicRef) {
+    await updateApplication(context, event, logicRef, { resourcePayloadCount: 1 });
+  }
+  await updateActivity(context, event, {
+    payloadCount: 1,
+    payloadBytes: size(event.params.blob as Hex),
+  });
 });
 
 // ============================================
@@ -563,22 +1577,49 @@ ProtocolAdapter.ResourcePayload.handler(async ({ event, context }: ResourcePaylo
 // ============================================
 // All three payload types are unified into a single Payload entity with a kind discriminator.
 
+/**
+ * Maps Payload entity kinds to the AppData payload kinds used by application decoders.
+ */
+const PAYLOAD_DECODER_KINDS: Record<Payload["kind"], PayloadDecoderKind> = {
+  discovery: "discovery",
+  forwarder: "external",
+  application: "application",
+};
+
+/**
+ * ChainStats and Application counters of each Payload entity kind.
+ */
+const PAYLOAD_COUNTERS: Record<
+  Payload["kind"],
+  "discoveryPayloadCount" | "externalPayloadCount" | "applicationPayloadCount"
+> = {
+  discovery: "discoveryPayloadCount",
+  forwarder: "externalPayloadCount",
+  application: "applicationPayloadCount",
+};
+
+type PayloadEvent = {
+  chainId: number;
+  block: { number: number; timestamp: number };
+  logIndex: number;
+  srcAddress: string;
+  transaction: { hash: string };
+  params: { tag: string; index: bigint; blob: string };
+};
+
 /**
  * Creates a Payload entity with the specified kind.
  * Note: blockNumber, chainId, timestamp are accessible via resource.transaction
  */
 function createPayloadEntity(
-  event: {
-    chainId: number;
-    block: { number: number; timestamp: number };
-    logIndex: number;
-    srcAddress: string;
-    params: { tag: string; index: bigint; blob: string };
-  },
-  kind: "discovery" | "forwarder" | "application"
+  event: PayloadEvent,
+  kind: Payload["kind"],
+  decoded: DecodedCalldata | null,
+  logicRef: string | undefined
 ): Payload {
   const eventId = createEventId(event);
   const resourceId = createResourceId(event.chainId, event.params.tag);
+  const decoderKind = PAYLOAD_DECODER_KINDS[kind];
 
   return {
     id: eventId,
@@ -586,27 +1627,47 @@ function createPayloadEntity(
     tag: event.params.tag,
     index: Number(event.params.index),
     blob: event.params.blob,
-    deletionCriterion: undefined, // Would need to decode from blob structure
+    // The deletion criterion is not part of the event, only of the calldata's ExpirableBlob
+    ...correlateCalldataBlob(decoded, decoderKind, event.params),
+    ...decodeApplicationPayload(decoderKind, logicRef, event.params),
     resource_id: resourceId,
   };
 }
 
-// eslint-disable-next-line @typescript-eslint/require-await
+/**
+ * Stores a Discovery, External or Application payload event and updates the statistics.
+ */
+async function handlePayloadEvent(
+  event: PayloadEvent,
+  context: handlerContext,
+  kind: Payload["kind"]
+): Promise<void> {
+  const { decoded } = resolveExecuteCall(event, hasTag(event.params.tag));
+  const logicRef = findLogicInputForTag(decoded, event.params.tag)?.verifyingKey;
+
+  context.Payload.set(createPayloadEntity(event, kind, decoded, logicRef));
+
+  const counter = PAYLOAD_COUNTERS[kind];
+  await updateChainStats(context, event, { [counter]: 1 });
+  await updateActivity(context, event, {
+    payloadCount: 1,
+    payloadBytes: size(event.params.blob as Hex),
+  });
+  if (logicRef) {
+    await updateApplication(context, event, logicRef, { [counter]: 1 });
+  }
+}
+
 ProtocolAdapter.DiscoveryPayload.handler(async ({ event, context }: DiscoveryPayloadArgs) => {
-  const entity = createPayloadEntity(event, "discovery");
-  context.Payload.set(entity);
+  await handlePayloadEvent(event, context, "discovery");
 });
 
-// eslint-disable-next-line @typescript-eslint/require-await
 ProtocolAdapter.ExternalPayload.handler(async ({ event, context }: ExternalPayloadArgs) => {
-  const entity = createPayloadEntity(event, "forwarder");
-  context.Payload.set(entity);
+  await handlePayloadEvent(event, context, "forwarder");
 });
 
-// eslint-disable-next-line @typescript-eslint/require-await
 ProtocolAdapter.ApplicationPayload.handler(async ({ event, context }: ApplicationPayloadArgs) => {
-  const entity = createPayloadEntity(event, "application");
-  context.Payload.set(entity);
+  await handlePayloadEvent(event, context, "application");
 });
 
 // ============================================
@@ -614,23 +1675,49 @@ ProtocolAdapter.ApplicationPayload.handler(async ({ event, context }: Applicatio
 // ============================================
 
 ProtocolAdapter.CommitmentTreeRootAdded.handler(
-  // eslint-disable-next-line @typescript-eslint/require-await
   async ({ event, context }: CommitmentTreeRootAddedArgs) => {
     const eventId = createEventId(event);
+    const commitmentTree = await getCommitmentTree(context, event.chainId, event.block.number);
 
-    // Use a deterministic index based on the root value for consistency
-    // In practice, roots are added sequentially per transaction
-    const entity: CommitmentTreeRoot = {
+    // leafCount and verification are finalized by TransactionExecuted once this transaction's
+    // commitments are known, unless they were already processed
+    let entity: CommitmentTreeRoot = {
       id: eventId,
       root: event.params.root,
       blockNumber: event.block.number,
       txHash: event.transaction.hash,
       timestamp: event.block.timestamp,
       chainId: event.chainId,
-      index: 0, // Index within transaction - would need state tracking for global index
+      index: commitmentTree.rootCount,
+      leafCount: commitmentTree.leafCount,
+      computedRoot: undefined,
+      verificationStatus: "pending",
     };
 
+    if (
+      commitmentTree.lastComputedRoot &&
+      commitmentTree.lastComputedTxHash === event.transaction.hash
+    ) {
+      entity = verifyCommitmentTreeRoot(entity, commitmentTree.lastComputedRoot);
+    }
+
     context.CommitmentTreeRoot.set(entity);
+
+    // Compliance units refer to roots by value
+    const lookupId = createCommitmentTreeRootLookupId(event.chainId, event.params.root);
+    if (!(await context.CommitmentTreeRootLookup.get(lookupId))) {
+      context.CommitmentTreeRootLookup.set({ id: lookupId, commitmentTreeRoot_id: eventId });
+    }
+
+    context.CommitmentTree.set({
+      ...commitmentTree,
+      rootCount: commitmentTree.rootCount + 1,
+      lastRootId: eventId,
+      lastRootTxHash: event.transaction.hash,
+      lastUpdatedBlock: event.block.number,
+    });
+
+    await updateChainStats(context, event, { commitmentTreeRootCount: 1 });
   }
 );
 
@@ -639,9 +1726,9 @@ ProtocolAdapter.CommitmentTreeRootAdded.handler(
 // ============================================
 
 ProtocolAdapter.ForwarderCallExecuted.handler(
-  // eslint-disable-next-line @typescript-eslint/require-await
   async ({ event, context }: ForwarderCallExecutedArgs) => {
     const eventId = createEventId(event);
+    const decoded = decodeForwarderCall(event.params.input, event.params.output);
 
     const entity: ForwarderCall = {
       id: eventId,
@@ -652,8 +1739,109 @@ ProtocolAdapter.ForwarderCallExecuted.handler(
       txHash: event.transaction.hash,
       timestamp: event.block.timestamp,
       chainId: event.chainId,
+      selector: decoded.selector,
+      decodingStatus: decoded.status,
+      decodingError: decoded.error,
+      abiName: decoded.abiName,
+      functionName: decoded.functionName,
+      decodedArgs: decoded.args,
+      decodedOutput: decoded.output,
+      revertReason: decoded.revertReason,
     };
 
     context.ForwarderCall.set(entity);
+
+    // Record selectors without a known ABI so missing ABIs can be added
+    if (decoded.status === "raw" && decoded.selector) {
+      const selectorId = `${event.chainId}_${event.params.untrustedForwarder.toLowerCase()}_${decoded.selector}`;
+      const existing = await context.UnknownSelector.get(selectorId);
+      const unknownSelector: UnknownSelector = existing
+        ? { ...existing, callCount: existing.callCount + 1, lastSeenBlock: event.block.number }
+        : {
+            id: selectorId,
+            chainId: event.chainId,
+            forwarderAddress: event.params.untrustedForwarder,
+            selector: decoded.selector,
+            callCount: 1,
+            firstSeenBlock: event.block.number,
+            firstSeenTxHash: event.transaction.hash,
+            lastSeenBlock: event.block.number,
+          };
+      context.UnknownSelector.set(unknownSelector);
+    }
+
+    await updateChainStats(context, event, { forwarderCallCount: 1 });
+    await updateActivity(context, event, { forwarderCallCount: 1 });
+  }
+);
+
+// ============================================
+// Paused / Unpaused / OwnershipTransferred Handlers
+// ============================================
+// These keep ProtocolAdapterState current and record an auditable history
+// of emergency stops and ownership changes per deployment.
+
+/**
+ * Records a Paused or Unpaused event and updates the adapter state.
+ */
+async function handlePauseChange(
+  event: PausedArgs["event"] | UnpausedArgs["event"],
+  context: handlerContext,
+  paused: boolean
+): Promise<void> {
+  const state = await getAdapterState(context, event);
+
+  const entity: PauseEvent = {
+    id: createEventId(event),
+    paused,
+    account: event.params.account,
+    blockNumber: event.block.number,
+    txHash: event.transaction.hash,
+    timestamp: event.block.timestamp,
+    chainId: event.chainId,
+    adapterState_id: state.id,
+  };
+  context.PauseEvent.set(entity);
+
+  context.ProtocolAdapterState.set({
+    ...state,
+    paused,
+    lastChangeBlock: event.block.number,
+    lastChangeTimestamp: event.block.timestamp,
+    lastChangeTxHash: event.transaction.hash,
+  });
+}
+
+ProtocolAdapter.Paused.handler(async ({ event, context }: PausedArgs) => {
+  await handlePauseChange(event, context, true);
+});
+
+ProtocolAdapter.Unpaused.handler(async ({ event, context }: UnpausedArgs) => {
+  await handlePauseChange(event, context, false);
+});
+
+ProtocolAdapter.OwnershipTransferred.handler(
+  async ({ event, context }: OwnershipTransferredArgs) => {
+    const state = await getAdapterState(context, event);
+
+    const entity: OwnershipChange = {
+      id: createEventId(event),
+      previousOwner: event.params.previousOwner,
+      newOwner: event.params.newOwner,
+      blockNumber: event.block.number,
+      txHash: event.transaction.hash,
+      timestamp: event.block.timestamp,
+      chainId: event.chainId,
+      adapterState_id: state.id,
+    };
+    context.OwnershipChange.set(entity);
+
+    context.ProtocolAdapterState.set({
+      ...state,
+      owner: event.params.newOwner,
+      lastChangeBlock: event.block.number,
+      lastChangeTimestamp: event.block.timestamp,
+      lastChangeTxHash: event.transaction.hash,
+    });
   }
 );
@@ -0,0 +1,22 @@
+/**
+ * ABIs of contracts the Protocol Adapter is known to call through forwarders.
+ *
+ * Each ABI is a plain JSON file in this directory. To decode calls to another contract,
+ * add its ABI (or the relevant subset) as a JSON file and list it below.
+ */
+
+import type { Abi } from "viem";
+import ERC20 from "./ERC20.json";
+import Forwarder from "./Forwarder.json";
+import WrappedNative from "./WrappedNative.json";
+
+export interface KnownAbi {
+  name: string;
+  abi: Abi;
+}
+
+export const KNOWN_ABIS: readonly KnownAbi[] = [
+  { name: "ERC20", abi: ERC20 as Abi },
+  { name: "WrappedNative", abi: WrappedNative as Abi },
+  { name: "Forwarder", abi: Forwarder as Abi },
+];
@@ -0,0 +1,404 @@
+/**
+ * Command-line decoder for ProtocolAdapter.execute() calldata.
+ *
+ * Usage: pnpm decode-tx [options] [calldata]
+ *
+ * Reads hex calldata from the argument, a file (--file) or stdin, and prints the actions,
+ * compliance instances, logic inputs, payloads and proofs it contains. Calldata wrapped in
+ * Multicall3, Safe or ERC-4337 calls is unwrapped first. Decoding uses the indexer's own
+ * decoders and runs fully offline, so the output matches what gets indexed.
+ */
+
+import { readFileSync } from "fs";
+import { size, type Hex } from "viem";
+import { decodeExecuteCalldata, findExecuteCall } from "../decoders/ActionDecoder";
+import { protocolAdapterVersionRegistry } from "../decoders/ProtocolAdapterVersionRegistry";
+import {
+  payloadDecoderRegistry,
+  type PayloadDecoderKind,
+} from "../decoders/PayloadDecoderRegistry";
+import { safeDecodeResourceBlob } from "../decoders/ResourceDecoder";
+import {
+  DeletionCriterion,
+  type AppData,
+  type ComplianceInstance,
+  type LogicVerifierInput,
+  type Resource,
+} from "../types";
+import { toJsonValue, type JsonValue } from "../utils/json";
+import { computeActionTreeRoot, getActionTreeTags } from "../utils/merkle";
+import { getProofMetadata, type ProofMetadata } from "../utils/proof";
+
+const USAGE = `Usage: pnpm decode-tx [options] [calldata]
+
+Decodes ProtocolAdapter.execute() calldata. Reads the calldata from the argument,
+from --file, or from stdin when neither is given (or the argument is "-").
+
+Options:
+  --file <path>      Read the calldata from a file
+  --json             Print JSON instead of text
+  --version <name>   Decode with this Protocol Adapter version (default: by selector)
+  --to <address>     Only unwrap wrapped calls targeting this Protocol Adapter
+  -h, --help         Show this help`;
+
+// ============================================
+// Report
+// ============================================
+
+export interface PayloadReport {
+  kind: PayloadDecoderKind;
+  index: number;
+  deletionCriterion: "immediately" | "never";
+  byteLength: number;
+  blob: Hex;
+  /** The blob decoded as a Resource struct (resource payloads only) */
+  resource?: Partial<Resource> | null;
+  /** Output of the application decoder registered for the logic input's verifying key */
+  decoded?: { decoderName: string; decoderVersion: string; data: JsonValue; error?: string };
+}
+
+export interface LogicInputReport {
+  index: number;
+  tag: Hex;
+  verifyingKey: Hex;
+  proof: ProofMetadata | null;
+  payloads: PayloadReport[];
+}
+
+export interface ComplianceUnitReport {
+  index: number;
+  instance: ComplianceInstance;
+  proof: ProofMetadata | null;
+}
+
+export interface ActionReport {
+  index: number;
+  actionTreeRoot: Hex;
+  tagCount: number;
+  complianceUnits: ComplianceUnitReport[];
+  logicInputs: LogicInputReport[];
+}
+
+export type TransactionReport =
+  | {
+      success: true;
+      version: string;
+      wrapperPath: string[];
+      proofMode: "aggregated" | "per_unit";
+      deltaProof: ProofMetadata | null;
+      aggregationProof: ProofMetadata | null;
+      actions: ActionReport[];
+    }
+  | {
+      success: false;
+      wrapperPath: string[];
+      code: string;
+      error: string;
+      selector?: string;
+      offset?: number;
+    };
+
+export interface DecodeOptions {
+  /** Protocol Adapter version name; detected from the selector if omitted */
+  version?: string;
+  /** Protocol Adapter address wrapped calls must target */
+  protocolAdapter?: string;
+}
+
+/**
+ * AppData field holding the blobs of each payload kind, in output order.
+ */
+const PAYLOAD_FIELDS: [PayloadDecoderKind, keyof AppData][] = [
+  ["resource", "resourcePayload"],
+  ["discovery", "discoveryPayload"],
+  ["external", "externalPayload"],
+  ["application", "applicationPayload"],
+];
+
+function describePayloads(li: LogicVerifierInput): PayloadReport[] {
+  return PAYLOAD_FIELDS.flatMap(([kind, field]) =>
+    li.appData[field].map((payload, index): PayloadReport => {
+      const report: PayloadReport = {
+        kind,
+        index,
+        deletionCriterion:
+          payload.deletionCriterion === DeletionCriterion.Never ? "never" : "immediately",
+        byteLength: size(payload.blob),
+        blob: payload.blob,
+      };
+      if (kind === "resource") {
+        report.resource = safeDecodeResourceBlob(payload.blob).resource;
+      }
+      const decoded = payloadDecoderRegistry.decode({
+        kind,
+        logicRef: li.verifyingKey,
+        tag: li.tag,
+        index,
+        blob: payload.blob,
+      });
+      if (decoded) {
+        report.decoded = decoded;
+      }
+      return report;
+    })
+  );
+}
+
+/**
+ * Decode calldata into a report of everything the indexer extracts from it.
+ *
+ * @param input - execute() calldata, or a wrapper call containing it
+ * @param options - Version and Protocol Adapter address to decode with
+ */
+export function describeCalldata(input: string, options: DecodeOptions = {}): TransactionReport {
+  const version = options.version ? protocolAdapterVersionRegistry.get(options.version) : undefined;
+  if (options.version && !version) {
+    throw new Error(`Unknown Protocol Adapter version ${options.version}`);
+  }
+
+  const call = findExecuteCall(input, { protocolAdapter: options.protocolAdapter, version });
+  const wrapperPath = call?.wrapperPath ?? [];
+  const result = decodeExecuteCalldata(call?.calldata ?? input, version);
+  if (!result.success) {
+    return {
+      success: false,
+      wrapperPath,
+      code: result.code,
+      error: result.error,
+      selector: result.selector,
+      offset: result.offset,
+    };
+  }
+
+  const { transaction } = result;
+
+  return {
+    success: true,
+    version: result.version,
+    wrapperPath,
+    proofMode: size(transaction.aggregationProof) > 0 ? "aggregated" : "per_unit",
+    deltaProof: getProofMetadata("delta", transaction.deltaProof),
+    aggregationProof: getProofMetadata("aggregation", transaction.aggregationProof),
+    actions: transaction.actions.map((action, index) => ({
+      index,
+      actionTreeRoot: computeActionTreeRoot(action),
+      tagCount: getActionTreeTags(action).length,
+      complianceUnits: action.complianceVerifierInputs.map((cu, cuIndex) => ({
+        index: cuIndex,
+        instance: cu.instance,
+        proof: getProofMetadata("compliance", cu.proof),
+      })),
+      logicInputs: action.logicVerifierInputs.map((li, liIndex) => ({
+        index: liIndex,
+        tag: li.tag,
+        verifyingKey: li.verifyingKey,
+        proof: getProofMetadata("logic", li.proof),
+        payloads: describePayloads(li),
+      })),
+    })),
+  };
+}
+
+// ============================================
+// Text Output
+// ============================================
+
+function formatProof(proof: ProofMetadata | null): string {
+  if (!proof) {
+    return "none";
+  }
+  const verifier = proof.verifierSelector ? `, verifier ${proof.verifierSelector}` : "";
+  return `${proof.byteLength} bytes${verifier}, sha256 ${proof.hash}`;
+}
+
+function formatPayload(payload: PayloadReport): string[] {
+  const lines = [
+    `${payload.kind} payload ${payload.index} (${payload.deletionCriterion}, ${payload.byteLength} bytes): ${payload.blob}`,
+  ];
+  if (payload.resource) {
+    const fields = Object.entries(toJsonValue(payload.resource) as Record<string, JsonValue>);
+    lines.push("  Resource", ...fields.map(([key, value]) => `    ${key}: ${String(value)}`));
+  }
+  if (payload.decoded) {
+    const { decoderName, decoderVersion, data, error } = payload.decoded;
+    lines.push(
+      `  ${decoderName} ${decoderVersion}: ${error ? `error: ${error}` : JSON.stringify(data)}`
+    );
+  }
+  return lines;
+}
+
+/**
+ * Format a report as indented text.
+ */
+export function formatReport(report: TransactionReport): string {
+  const indent = (lines: string[]) => lines.map((line) => `  ${line}`);
+  const lines: string[] = [];
+
+  if (report.wrapperPath.length > 0) {
+    lines.push(`Wrapped in: ${report.wrapperPath.join(" > ")}`);
+  }
+  if (!report.success) {
+    const offset = report.offset === undefined ? "" : ` at byte ${report.offset}`;
+    lines.push(`Decoding failed (${report.code}${offset}): ${report.error}`);
+    return lines.join("\n");
+  }
+
+  lines.push(
+    `Protocol Adapter ${report.version} execute(), ${report.actions.length} action(s)`,
+    `Proof mode: ${report.proofMode}`,
+    `Delta proof: ${formatProof(report.deltaProof)}`,
+    `Aggregation proof: ${formatProof(report.aggregationProof)}`
+  );
+
+  for (const action of report.actions) {
+    lines.push(
+      "",
+      `Action ${action.index}: ${action.tagCount} tags, tree root ${action.actionTreeRoot}`
+    );
+    for (const cu of action.complianceUnits) {
+      const { consumed, created, unitDeltaX, unitDeltaY } = cu.instance;
+      lines.push(
+        ...indent([
+          `Compliance unit ${cu.index}`,
+          `  consumed: nullifier ${consumed.nullifier}`,
+          `            logicRef ${consumed.logicRef}`,
+          `            commitmentTreeRoot ${consumed.commitmentTreeRoot}`,
+          `  created:  commitment ${created.commitment}`,
+          `            logicRef ${created.logicRef}`,
+          `  unitDelta: (${unitDeltaX}, ${unitDeltaY})`,
+          `  proof: ${formatProof(cu.proof)}`,
+        ])
+      );
+    }
+    for (const li of action.logicInputs) {
+      lines.push(
+        ...indent([
+          `Logic input ${li.index}: tag ${li.tag}`,
+          `  verifyingKey ${li.verifyingKey}`,
+          `  proof: ${formatProof(li.proof)}`,
+          ...indent(li.payloads.flatMap(formatPayload)),
+        ])
+      );
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ============================================
+// Command
+// ============================================
+
+export interface CliOptions extends DecodeOptions {
+  calldata?: string;
+  file?: string;
+  json: boolean;
+  help: boolean;
+}
+
+/**
+ * Parse command-line arguments (without the node and script paths).
+ * Throws on unknown options and missing option values.
+ */
+export function parseArgs(args: readonly string[]): CliOptions {
+  const options: CliOptions = { json: false, help: false };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      return next;
+    };
+
+    if (arg === "--json") {
+      options.json = true;
+    } else if (arg === "-h" || arg === "--help") {
+      options.help = true;
+    } else if (arg === "--file") {
+      options.file = value();
+    } else if (arg === "--version") {
+      options.version = value();
+    } else if (arg === "--to") {
+      options.protocolAdapter = value();
+    } else if (arg.startsWith("-") && arg !== "-") {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (options.calldata !== undefined) {
+      throw new Error("Expected a single calldata argument");
+    } else {
+      options.calldata = arg;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Normalize pasted calldata: trims whitespace and adds the 0x prefix.
+ * Throws if the result is not hex.
+ */
+export function normalizeCalldata(raw: string): Hex {
+  const trimmed = raw.replace(/\s+/g, "");
+  const hex = trimmed.startsWith("0x") ? trimmed : `0x${trimmed}`;
+  if (!/^0x[0-9a-fA-F]*$/.test(hex) || hex.length % 2 !== 0) {
+    throw new Error("Calldata must be an even-length hex string");
+  }
+  return hex as Hex;
+}
+
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on("data", (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    process.stdin.on("error", reject);
+  });
+}
+
+/**
+ * Run the command.
+ *
+ * @returns The exit code: 0 if decoded, 1 if decoding failed, 2 on usage errors
+ */
+export async function main(args: readonly string[]): Promise<number> {
+  let options: CliOptions;
+  let report: TransactionReport;
+  try {
+    options = parseArgs(args);
+    if (options.help) {
+      console.log(USAGE);
+      return 0;
+    }
+
+    const raw =
+      options.file !== undefined
+        ? readFileSync(options.file, "utf8")
+        : options.calldata !== undefined && options.calldata !== "-"
+          ? options.calldata
+          : await readStdin();
+    report = describeCalldata(normalizeCalldata(raw), options);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    console.error(USAGE);
+    return 2;
+  }
+
+  console.log(options.json ? JSON.stringify(toJsonValue(report), null, 2) : formatReport(report));
+  return report.success ? 0 : 1;
+}
+
+if (require.main === module) {
+  // Set the exit code instead of exiting so that piped output is flushed
+  main(process.argv.slice(2)).then(
+    (code) => {
+      process.exitCode = code;
+    },
+    (error: unknown) => {
+      console.error(error);
+      process.exitCode = 2;
+    }
+  );
+}
@@ -4,18 +4,18 @@
  * Centralized location for hardcoded values, magic numbers, and configuration.
  */
 
-/**
- * Function selector for the execute() function on the Protocol Adapter contract.
- * First 4 bytes of keccak256("execute(((bytes32,bytes32,bytes32,bytes32,uint256,bytes32,bytes32,bytes32,bytes32,bytes32,bytes),(bytes32,bytes32,bytes32,bytes),bytes)[],(bytes,(bytes32,bytes32,bytes32,bytes32,bytes),(bytes,bytes,bytes))[],bytes,bytes)")
- */
-export const EXECUTE_SELECTOR = "0xed3cf91f";
-
 /**
  * Maximum number of decoded transaction calldata entries to cache.
  * Prevents unbounded memory growth when processing many transactions.
  */
 export const DECODED_CALLDATA_CACHE_MAX_SIZE = 1000;
 
+/**
+ * Padding leaf used by PA-EVM Merkle trees (SHA256.EMPTY_HASH, i.e. sha256 of empty bytes).
+ */
+export const MERKLE_EMPTY_LEAF =
+  "0xe3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+
 /**
  * Resource index parity convention from TransactionExecuted events:
  * - Even indices (0, 2, 4...): consumed resources (nullifiers)
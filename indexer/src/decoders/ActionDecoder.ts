@@ -3,349 +3,437 @@
  *
  * This decoder extracts the full Transaction structure from calldata,
  * including Actions with their ComplianceVerifierInputs and LogicVerifierInputs.
+ * encodeExecuteCalldata() builds calldata from a Transaction.
  *
- * The execute function signature is:
- * execute(Transaction calldata transaction)
+ * The execute() ABI differs between Protocol Adapter versions, so calldata is decoded with the
+ * version configured for the deployment or, failing that, the version whose execute selector
+ * matches (see ProtocolAdapterVersionRegistry).
  *
- * Where Transaction is:
- * struct Transaction {
- *     Action[] actions;
- *     bytes deltaProof;
- *     bytes aggregationProof;
- * }
- *
- * And Action is:
- * struct Action {
- *     Logic.VerifierInput[] logicVerifierInputs;
- *     Compliance.VerifierInput[] complianceVerifierInputs;
- * }
+ * Transactions submitted through Multicall3, a Gnosis Safe, an ERC-4337 EntryPoint or a smart
+ * account carry the execute() call inside the wrapper's calldata. findExecuteCalls() unwraps
+ * known wrapper formats recursively to find it.
  */
 
-import { decodeFunctionData, type Hex, type Abi } from "viem";
-import { EXECUTE_SELECTOR } from "../constants";
 import {
-  Transaction,
-  Action,
-  LogicVerifierInput,
-  ComplianceVerifierInput,
-  AppData,
-  ExpirableBlob,
-  DeletionCriterion,
-} from "../types";
-
-// ABI for the execute function with nested structs
-// Based on the full signature from the contract:
-// execute((((bytes32,bytes32,((uint8,bytes)[],(uint8,bytes)[],(uint8,bytes)[],(uint8,bytes)[]),bytes)[],(bytes,((bytes32,bytes32,bytes32),(bytes32,bytes32),bytes32,bytes32))[])[],bytes,bytes))
-const EXECUTE_ABI: Abi = [
-  {
-    name: "execute",
-    type: "function",
-    stateMutability: "nonpayable",
-    inputs: [
-      {
-        name: "transaction",
-        type: "tuple",
-        components: [
-          {
-            name: "actions",
-            type: "tuple[]",
-            components: [
-              {
-                name: "logicVerifierInputs",
-                type: "tuple[]",
-                components: [
-                  { name: "tag", type: "bytes32" },
-                  { name: "verifyingKey", type: "bytes32" },
-                  {
-                    name: "appData",
-                    type: "tuple",
-                    components: [
-                      {
-                        name: "resourcePayload",
-                        type: "tuple[]",
-                        components: [
-                          { name: "deletionCriterion", type: "uint8" },
-                          { name: "blob", type: "bytes" },
-                        ],
-                      },
-                      {
-                        name: "discoveryPayload",
-                        type: "tuple[]",
-                        components: [
-                          { name: "deletionCriterion", type: "uint8" },
-                          { name: "blob", type: "bytes" },
-                        ],
-                      },
-                      {
-                        name: "externalPayload",
-                        type: "tuple[]",
-                        components: [
-                          { name: "deletionCriterion", type: "uint8" },
-                          { name: "blob", type: "bytes" },
-                        ],
-                      },
-                      {
-                        name: "applicationPayload",
-                        type: "tuple[]",
-                        components: [
-                          { name: "deletionCriterion", type: "uint8" },
-                          { name: "blob", type: "bytes" },
-                        ],
-                      },
-                    ],
-                  },
-                  { name: "proof", type: "bytes" },
-                ],
-              },
-              {
-                name: "complianceVerifierInputs",
-                type: "tuple[]",
-                components: [
-                  { name: "proof", type: "bytes" },
-                  {
-                    name: "instance",
-                    type: "tuple",
-                    components: [
-                      {
-                        name: "consumed",
-                        type: "tuple",
-                        components: [
-                          { name: "nullifier", type: "bytes32" },
-                          { name: "logicRef", type: "bytes32" },
-                          { name: "commitmentTreeRoot", type: "bytes32" },
-                        ],
-                      },
-                      {
-                        name: "created",
-                        type: "tuple",
-                        components: [
-                          { name: "commitment", type: "bytes32" },
-                          { name: "logicRef", type: "bytes32" },
-                        ],
-                      },
-                      { name: "unitDeltaX", type: "bytes32" },
-                      { name: "unitDeltaY", type: "bytes32" },
-                    ],
-                  },
-                ],
-              },
-            ],
-          },
-          { name: "deltaProof", type: "bytes" },
-          { name: "aggregationProof", type: "bytes" },
-        ],
-      },
-    ],
-    outputs: [],
-  },
-];
-
-// Raw decoded types from viem
-interface RawExpirableBlob {
-  deletionCriterion: number;
-  blob: Hex;
-}
-
-interface RawAppData {
-  resourcePayload: readonly RawExpirableBlob[];
-  discoveryPayload: readonly RawExpirableBlob[];
-  externalPayload: readonly RawExpirableBlob[];
-  applicationPayload: readonly RawExpirableBlob[];
-}
-
-interface RawLogicInput {
-  tag: Hex;
-  verifyingKey: Hex;
-  appData: RawAppData;
-  proof: Hex;
-}
-
-interface RawConsumedRefs {
-  nullifier: Hex;
-  logicRef: Hex;
-  commitmentTreeRoot: Hex;
-}
-
-interface RawCreatedRefs {
-  commitment: Hex;
-  logicRef: Hex;
-}
-
-interface RawComplianceInstance {
-  consumed: RawConsumedRefs;
-  created: RawCreatedRefs;
-  unitDeltaX: Hex;
-  unitDeltaY: Hex;
-}
-
-interface RawComplianceInput {
-  proof: Hex;
-  instance: RawComplianceInstance;
-}
-
-interface RawAction {
-  logicVerifierInputs: readonly RawLogicInput[];
-  complianceVerifierInputs: readonly RawComplianceInput[];
-}
-
-interface RawTransaction {
-  actions: readonly RawAction[];
-  deltaProof: Hex;
-  aggregationProof: Hex;
-}
+  decodeFunctionData,
+  encodeFunctionData,
+  parseAbi,
+  toFunctionSelector,
+  type Abi,
+  type AbiFunction,
+  type Hex,
+} from "viem";
+import type { Transaction, Action } from "../types";
+import {
+  getExecuteSelector,
+  protocolAdapterVersionRegistry,
+  type ProtocolAdapterVersion,
+} from "./ProtocolAdapterVersionRegistry";
+import { LATEST_PROTOCOL_ADAPTER_VERSION } from "./versions";
 
 export interface DecodedTransactionResult {
   transaction: Transaction;
+  version: string;
   success: true;
 }
 
+/**
+ * Why execute() calldata could not be decoded.
+ * - empty_input: no calldata
+ * - unknown_selector: the selector is not the execute() of a known (or the pinned) version
+ * - truncated_data: the data ends before a value that should be there
+ * - bad_offset: an offset or length points outside the data
+ * - unexpected_shape: the data decodes but not into the expected Transaction structure
+ */
+export type DecodingErrorCode =
+  | "empty_input"
+  | "unknown_selector"
+  | "truncated_data"
+  | "bad_offset"
+  | "unexpected_shape";
+
 export interface DecodedTransactionError {
   success: false;
+  code: DecodingErrorCode;
   error: string;
+  /** Selector of the decoded calldata, if it has one */
+  selector?: string;
+  /** Byte offset in the calldata (including the selector) where decoding failed, if known */
+  offset?: number;
 }
 
 export type DecodedTransactionResponse = DecodedTransactionResult | DecodedTransactionError;
 
 /**
- * Convert raw expirable blob from ABI decoding to typed format
+ * Number of bytes in an ABI word.
  */
-function convertExpirableBlob(raw: RawExpirableBlob): ExpirableBlob {
-  return {
-    deletionCriterion:
-      raw.deletionCriterion === 0 ? DeletionCriterion.Immediately : DeletionCriterion.Never,
-    blob: raw.blob,
-  };
-}
-
-/**
- * Convert raw app data from ABI decoding to typed format
- */
-function convertAppData(raw: RawAppData): AppData {
-  return {
-    resourcePayload: raw.resourcePayload.map(convertExpirableBlob),
-    discoveryPayload: raw.discoveryPayload.map(convertExpirableBlob),
-    externalPayload: raw.externalPayload.map(convertExpirableBlob),
-    applicationPayload: raw.applicationPayload.map(convertExpirableBlob),
-  };
-}
-
-/**
- * Convert raw logic verifier input from ABI decoding to typed format
- */
-function convertLogicInput(raw: RawLogicInput): LogicVerifierInput {
-  return {
-    tag: raw.tag,
-    verifyingKey: raw.verifyingKey,
-    appData: convertAppData(raw.appData),
-    proof: raw.proof,
-  };
-}
+const WORD_SIZE = 32;
 
 /**
- * Convert raw compliance verifier input from ABI decoding to typed format
- */
-function convertComplianceInput(raw: RawComplianceInput): ComplianceVerifierInput {
-  return {
-    proof: raw.proof,
-    instance: {
-      consumed: {
-        nullifier: raw.instance.consumed.nullifier,
-        logicRef: raw.instance.consumed.logicRef,
-        commitmentTreeRoot: raw.instance.consumed.commitmentTreeRoot,
-      },
-      created: {
-        commitment: raw.instance.created.commitment,
-        logicRef: raw.instance.created.logicRef,
-      },
-      unitDeltaX: raw.instance.unitDeltaX,
-      unitDeltaY: raw.instance.unitDeltaY,
-    },
-  };
-}
-
-/**
- * Convert raw action from ABI decoding to typed format
- */
-function convertAction(raw: RawAction): Action {
-  return {
-    logicVerifierInputs: raw.logicVerifierInputs.map(convertLogicInput),
-    complianceVerifierInputs: raw.complianceVerifierInputs.map(convertComplianceInput),
-  };
-}
-
-/**
- * Convert raw transaction from ABI decoding to typed format
+ * Classifies a viem ABI decoding error.
+ * viem reads past the end of the data when it is truncated, and far past it when an offset or
+ * length word is corrupt, so out-of-bounds positions within one word of the end count as
+ * truncation.
+ *
+ * @param error - The error thrown while decoding
+ * @param dataSize - Size in bytes of the ABI-encoded arguments (without the selector)
  */
-function convertTransaction(raw: RawTransaction): Transaction {
-  return {
-    actions: raw.actions.map(convertAction),
-    deltaProof: raw.deltaProof,
-    aggregationProof: raw.aggregationProof,
-  };
+function classifyDecodingError(
+  error: unknown,
+  dataSize: number
+): Pick<DecodedTransactionError, "code" | "offset"> {
+  const name = error instanceof Error ? error.name : "";
+  const message = error instanceof Error ? error.message : String(error);
+
+  switch (name) {
+    case "AbiDecodingZeroDataError":
+    case "AbiDecodingDataSizeTooSmallError":
+    case "SliceOffsetOutOfBoundsError":
+      return { code: "truncated_data", offset: 4 + dataSize };
+    case "PositionOutOfBoundsError": {
+      const position = Number(/Position `(\d+)`/.exec(message)?.[1] ?? NaN);
+      if (Number.isNaN(position)) {
+        return { code: "bad_offset" };
+      }
+      const truncated = dataSize % WORD_SIZE !== 0 || position - dataSize < WORD_SIZE;
+      return { code: truncated ? "truncated_data" : "bad_offset", offset: 4 + position };
+    }
+    case "IntegerOutOfRangeError":
+    case "RecursiveReadLimitExceededError":
+      return { code: "bad_offset" };
+    default:
+      return { code: "unexpected_shape" };
+  }
 }
 
 /**
  * Decode transaction calldata from a ProtocolAdapter.execute() call.
  *
  * @param input - The transaction input/calldata as a hex string
- * @returns Decoded Transaction or error
+ * @param version - The Protocol Adapter version to decode with; detected from the selector if omitted
+ * @returns Decoded Transaction or a typed error
  */
-export function decodeExecuteCalldata(input: string): DecodedTransactionResponse {
-  try {
-    // Validate input
-    if (!input || input === "0x") {
-      return { success: false, error: "Empty calldata" };
-    }
-
-    const hexInput: Hex = input.startsWith("0x") ? (input as Hex) : `0x${input}`;
+export function decodeExecuteCalldata(
+  input: string,
+  version?: ProtocolAdapterVersion
+): DecodedTransactionResponse {
+  // Validate input
+  if (!input || input === "0x") {
+    return { success: false, code: "empty_input", error: "Empty calldata" };
+  }
 
-    // Check function selector
-    const selector = hexInput.slice(0, 10).toLowerCase();
-    if (selector !== EXECUTE_SELECTOR) {
-      return {
-        success: false,
-        error: `Unknown function selector: ${selector}, expected ${EXECUTE_SELECTOR}`,
-      };
-    }
+  const hexInput: Hex = input.startsWith("0x") ? (input as Hex) : `0x${input}`;
+
+  // Check function selector
+  const selector = hexInput.slice(0, 10).toLowerCase();
+  const resolved = version ?? protocolAdapterVersionRegistry.getBySelector(selector);
+  if (!resolved) {
+    return {
+      success: false,
+      code: "unknown_selector",
+      error: `Unknown function selector: ${selector}`,
+      selector,
+    };
+  }
+  if (selector !== getExecuteSelector(resolved)) {
+    return {
+      success: false,
+      code: "unknown_selector",
+      error:
+        `Unknown function selector: ${selector}, ` +
+        `expected ${getExecuteSelector(resolved)} for ${resolved.name}`,
+      selector,
+    };
+  }
 
+  let transaction: Transaction;
+  try {
     // Decode the function data
     const decoded = decodeFunctionData({
-      abi: EXECUTE_ABI,
+      abi: resolved.executeAbi,
       data: hexInput,
     });
 
     if (decoded.functionName !== "execute") {
       return {
         success: false,
+        code: "unexpected_shape",
         error: `Unexpected function name: ${decoded.functionName}`,
+        selector,
       };
     }
 
     // Extract the transaction argument (first and only argument)
     if (!decoded.args || decoded.args.length === 0) {
-      return { success: false, error: "No arguments in decoded calldata" };
+      return {
+        success: false,
+        code: "unexpected_shape",
+        error: "No arguments in decoded calldata",
+        selector,
+      };
     }
-    const rawTransaction = decoded.args[0] as RawTransaction;
 
     // Convert to typed format
-    const transaction = convertTransaction(rawTransaction);
-
-    return { success: true, transaction };
+    transaction = resolved.convertTransaction(decoded.args[0]);
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
-    return { success: false, error: `Failed to decode calldata: ${message}` };
+    const dataSize = Math.max(0, Math.floor((hexInput.length - 10) / 2));
+    return {
+      success: false,
+      ...classifyDecodingError(error, dataSize),
+      error: `Failed to decode calldata: ${message}`,
+      selector,
+    };
   }
+
+  return { success: true, transaction, version: resolved.name };
+}
+
+/**
+ * Encode a Transaction as ProtocolAdapter.execute() calldata.
+ * The counterpart of decodeExecuteCalldata(), built on the same ABI.
+ *
+ * @param transaction - The transaction to encode
+ * @param version - The Protocol Adapter version to encode for; the latest if omitted
+ * @returns The calldata, including the execute() selector
+ */
+export function encodeExecuteCalldata(
+  transaction: Transaction,
+  version: ProtocolAdapterVersion = LATEST_PROTOCOL_ADAPTER_VERSION
+): Hex {
+  return encodeFunctionData({
+    abi: version.executeAbi,
+    functionName: "execute",
+    args: [version.encodeTransaction(transaction)],
+  });
 }
 
 /**
- * Check if calldata is for the execute function.
+ * Check if calldata is for the execute function of a known Protocol Adapter version.
  */
 export function isExecuteCalldata(input: string): boolean {
   if (!input || input.length < 10) {
     return false;
   }
   const hexInput = input.startsWith("0x") ? input : `0x${input}`;
-  return hexInput.slice(0, 10).toLowerCase() === EXECUTE_SELECTOR;
+  return protocolAdapterVersionRegistry.getBySelector(hexInput.slice(0, 10)) !== undefined;
+}
+
+// ============================================
+// Wrapper Unwrapping
+// ============================================
+
+/**
+ * Maximum number of nested wrapper calls to unwrap.
+ */
+const MAX_WRAPPER_DEPTH = 4;
+
+/**
+ * A call embedded in a wrapper call. target is unknown for calls to the wrapper itself.
+ */
+interface InnerCall {
+  target?: string;
+  data: Hex;
+}
+
+/**
+ * A wrapper call format. Batch wrappers embed a list of calls, which are numbered in the path.
+ */
+interface CallWrapper {
+  name: string;
+  abi: Abi;
+  batch: boolean;
+  innerCalls(args: readonly unknown[]): InnerCall[];
+}
+
+type TargetCall = { target: string; callData: Hex };
+type UserOperation = { sender: string; callData: Hex };
+
+const multicall = (calls: unknown): InnerCall[] =>
+  (calls as readonly TargetCall[]).map((call) => ({ target: call.target, data: call.callData }));
+
+const userOperations = (ops: unknown): InnerCall[] =>
+  (ops as readonly UserOperation[]).map((op) => ({ target: op.sender, data: op.callData }));
+
+const batch = (targets: unknown, data: unknown): InnerCall[] =>
+  (data as readonly Hex[]).map((callData, i) => ({
+    target: (targets as readonly string[])[i],
+    data: callData,
+  }));
+
+/**
+ * Known wrapper call formats.
+ */
+const CALL_WRAPPERS: readonly CallWrapper[] = [
+  {
+    name: "Multicall3.aggregate",
+    abi: parseAbi(["function aggregate((address target, bytes callData)[] calls)"]),
+    batch: true,
+    innerCalls: ([calls]) => multicall(calls),
+  },
+  {
+    name: "Multicall3.tryAggregate",
+    abi: parseAbi([
+      "function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls)",
+    ]),
+    batch: true,
+    innerCalls: ([, calls]) => multicall(calls),
+  },
+  {
+    name: "Multicall3.blockAndAggregate",
+    abi: parseAbi(["function blockAndAggregate((address target, bytes callData)[] calls)"]),
+    batch: true,
+    innerCalls: ([calls]) => multicall(calls),
+  },
+  {
+    name: "Multicall3.tryBlockAndAggregate",
+    abi: parseAbi([
+      "function tryBlockAndAggregate(bool requireSuccess, (address target, bytes callData)[] calls)",
+    ]),
+    batch: true,
+    innerCalls: ([, calls]) => multicall(calls),
+  },
+  {
+    name: "Multicall3.aggregate3",
+    abi: parseAbi([
+      "function aggregate3((address target, bool allowFailure, bytes callData)[] calls)",
+    ]),
+    batch: true,
+    innerCalls: ([calls]) => multicall(calls),
+  },
+  {
+    name: "Multicall3.aggregate3Value",
+    abi: parseAbi([
+      "function aggregate3Value((address target, bool allowFailure, uint256 value, bytes callData)[] calls)",
+    ]),
+    batch: true,
+    innerCalls: ([calls]) => multicall(calls),
+  },
+  {
+    name: "Safe.execTransaction",
+    abi: parseAbi([
+      "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)",
+    ]),
+    batch: false,
+    innerCalls: ([to, , data]) => [{ target: to as string, data: data as Hex }],
+  },
+  {
+    name: "EntryPoint.handleOps",
+    abi: parseAbi([
+      "function handleOps((address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)[] ops, address beneficiary)",
+    ]),
+    batch: true,
+    innerCalls: ([ops]) => userOperations(ops),
+  },
+  {
+    name: "EntryPointV06.handleOps",
+    abi: parseAbi([
+      "function handleOps((address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)[] ops, address beneficiary)",
+    ]),
+    batch: true,
+    innerCalls: ([ops]) => userOperations(ops),
+  },
+  {
+    name: "SimpleAccount.execute",
+    abi: parseAbi(["function execute(address dest, uint256 value, bytes func)"]),
+    batch: false,
+    innerCalls: ([dest, , func]) => [{ target: dest as string, data: func as Hex }],
+  },
+  {
+    name: "SimpleAccount.executeBatch",
+    abi: parseAbi(["function executeBatch(address[] dest, uint256[] value, bytes[] func)"]),
+    batch: true,
+    innerCalls: ([dest, , func]) => batch(dest, func),
+  },
+  {
+    name: "SimpleAccountV06.executeBatch",
+    abi: parseAbi(["function executeBatch(address[] dest, bytes[] func)"]),
+    batch: true,
+    innerCalls: ([dest, func]) => batch(dest, func),
+  },
+];
+
+const callWrappersBySelector = new Map<string, CallWrapper>(
+  CALL_WRAPPERS.map((wrapper) => [toFunctionSelector(wrapper.abi[0] as AbiFunction), wrapper])
+);
+
+export interface ExecuteCall {
+  calldata: Hex;
+  /** Wrapper calls leading to the execute() call, e.g. ["Multicall3.aggregate3[1]"]; empty for direct calls */
+  wrapperPath: string[];
+}
+
+/**
+ * Find all execute() calls in a transaction input, unwrapping known wrapper calls.
+ *
+ * Calls with a known target are only accepted if they go to the given Protocol Adapter.
+ * A batch wrapper may embed several execute() calls; they are returned in calldata order.
+ *
+ * @param input - The transaction input/calldata as a hex string
+ * @param options.protocolAdapter - Address of the Protocol Adapter that emitted the events
+ * @param options.to - Recipient of the transaction, i.e. the target of the outermost call
+ * @param options.version - Version whose execute selector to look for; any known version if omitted
+ * @returns The execute() calldata and wrapper path of every call, empty if none is found
+ */
+export function findExecuteCalls(
+  input: string,
+  options: { protocolAdapter?: string; to?: string; version?: ProtocolAdapterVersion } = {}
+): ExecuteCall[] {
+  if (!input || input.length < 10) {
+    return [];
+  }
+  const hexInput: Hex = input.startsWith("0x") ? (input as Hex) : `0x${input}`;
+  return findExecuteCallsIn({ target: options.to, data: hexInput }, [], options);
+}
+
+/**
+ * Find the first execute() call in a transaction input, unwrapping known wrapper calls.
+ * See findExecuteCalls() for the options.
+ *
+ * @returns The execute() calldata and wrapper path, or null if none is found
+ */
+export function findExecuteCall(
+  input: string,
+  options: { protocolAdapter?: string; to?: string; version?: ProtocolAdapterVersion } = {}
+): ExecuteCall | null {
+  return findExecuteCalls(input, options)[0] ?? null;
+}
+
+function findExecuteCallsIn(
+  call: InnerCall,
+  path: string[],
+  options: { protocolAdapter?: string; version?: ProtocolAdapterVersion }
+): ExecuteCall[] {
+  const selector = call.data.slice(0, 10).toLowerCase();
+  const isExecute = options.version
+    ? selector === getExecuteSelector(options.version)
+    : isExecuteCalldata(call.data);
+  const toAdapter =
+    !call.target ||
+    !options.protocolAdapter ||
+    call.target.toLowerCase() === options.protocolAdapter.toLowerCase();
+
+  if (isExecute && toAdapter) {
+    return [{ calldata: call.data, wrapperPath: path }];
+  }
+
+  const wrapper = callWrappersBySelector.get(selector);
+  if (!wrapper || path.length >= MAX_WRAPPER_DEPTH) {
+    return [];
+  }
+
+  let innerCalls: InnerCall[];
+  try {
+    const decoded = decodeFunctionData({ abi: wrapper.abi, data: call.data });
+    innerCalls = wrapper.innerCalls(decoded.args ?? []);
+  } catch {
+    return [];
+  }
+
+  return innerCalls.flatMap((innerCall, i) => {
+    const step = wrapper.batch ? `${wrapper.name}[${i}]` : wrapper.name;
+    return findExecuteCallsIn(innerCall, [...path, step], options);
+  });
 }
 
 /**
@@ -0,0 +1,191 @@
+/**
+ * Decoder for ForwarderCallExecuted input and output data.
+ *
+ * The Protocol Adapter forwards external calls to untrusted forwarder contracts and emits the
+ * raw input and output bytes. When the input starts with the selector of a function from one
+ * of the known ABIs (see src/abis), the call is decoded into its function name and named
+ * arguments, and the output into named return values or a revert reason.
+ */
+
+import {
+  decodeAbiParameters,
+  decodeErrorResult,
+  toFunctionSelector,
+  type Abi,
+  type AbiFunction,
+  type AbiParameter,
+  type Hex,
+} from "viem";
+import { KNOWN_ABIS, type KnownAbi } from "../abis";
+import { toJsonValue, type JsonValue } from "../utils/json";
+
+type AbiError = Extract<Abi[number], { type: "error" }>;
+
+export interface DecodedForwarderCall {
+  status: "success" | "failed" | "pending" | "raw";
+  selector?: string;
+  abiName?: string;
+  functionName?: string;
+  args?: JsonValue;
+  output?: JsonValue;
+  revertReason?: string;
+  error?: string;
+}
+
+/**
+ * Maps decoded values to their parameter names, using argN for unnamed parameters.
+ */
+function toNamedValues(
+  params: readonly AbiParameter[],
+  values: readonly unknown[]
+): Record<string, unknown> {
+  const named: Record<string, unknown> = {};
+  params.forEach((param, i) => {
+    named[param.name || `arg${i}`] = values[i];
+  });
+  return named;
+}
+
+/**
+ * Formats a decoded error as a revert reason.
+ * Error(string) yields its message; other errors are formatted as Name(arg1, arg2).
+ */
+function formatRevertReason(errorName: string, args: readonly unknown[] | undefined): string {
+  if (errorName === "Error" && typeof args?.[0] === "string") {
+    return args[0];
+  }
+  const formatted = (args ?? []).map((arg) => JSON.stringify(toJsonValue(arg)));
+  return `${errorName}(${formatted.join(", ")})`;
+}
+
+export class ForwarderAbiRegistry {
+  private functions: Map<string, { abiName: string; item: AbiFunction }> = new Map();
+  private errors: AbiError[] = [];
+
+  /**
+   * Register the functions and errors of an ABI.
+   * Throws if a function selector is already registered with a different signature.
+   */
+  register(known: KnownAbi): void {
+    for (const item of known.abi) {
+      if (item.type === "error") {
+        this.errors.push(item);
+        continue;
+      }
+      if (item.type !== "function") {
+        continue;
+      }
+
+      const selector = toFunctionSelector(item);
+      const existing = this.functions.get(selector);
+      if (existing) {
+        // The same function listed in several ABIs
+        if (existing.item.name === item.name) {
+          continue;
+        }
+        throw new Error(
+          `Selector ${selector} of ${known.name}.${item.name} collides with ` +
+            `${existing.abiName}.${existing.item.name}`
+        );
+      }
+      this.functions.set(selector, { abiName: known.name, item });
+    }
+  }
+
+  /**
+   * Get the function registered for a 4-byte selector.
+   */
+  getFunction(selector: string): { abiName: string; item: AbiFunction } | undefined {
+    return this.functions.get(selector.toLowerCase());
+  }
+
+  /**
+   * Decode a forwarder call's input and output.
+   */
+  decode(input: string, output: string): DecodedForwarderCall {
+    if (!input || input === "0x") {
+      return { status: "pending" };
+    }
+
+    const hexInput: Hex = input.startsWith("0x") ? (input as Hex) : `0x${input}`;
+    if (hexInput.length < 10) {
+      return { status: "raw", error: "Input shorter than a function selector" };
+    }
+
+    const selector = hexInput.slice(0, 10).toLowerCase();
+    const match = this.getFunction(selector);
+    if (!match) {
+      return { status: "raw", selector, error: `Unknown function selector: ${selector}` };
+    }
+
+    const decoded: DecodedForwarderCall = {
+      status: "success",
+      selector,
+      abiName: match.abiName,
+      functionName: match.item.name,
+    };
+
+    try {
+      const args = decodeAbiParameters(match.item.inputs, `0x${hexInput.slice(10)}`);
+      decoded.args = toJsonValue(toNamedValues(match.item.inputs, args));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...decoded, status: "failed", error: `Failed to decode input: ${message}` };
+    }
+
+    const hexOutput: Hex = output.startsWith("0x") ? (output as Hex) : `0x${output}`;
+    if (hexOutput === "0x") {
+      return decoded;
+    }
+
+    const revertReason = this.decodeRevertReason(hexOutput);
+    if (revertReason !== undefined) {
+      return { ...decoded, revertReason };
+    }
+
+    try {
+      const values = decodeAbiParameters(match.item.outputs, hexOutput);
+      decoded.output = toJsonValue(toNamedValues(match.item.outputs, values));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...decoded, status: "failed", error: `Failed to decode output: ${message}` };
+    }
+
+    return decoded;
+  }
+
+  /**
+   * Decode output data as Error(string), Panic(uint256) or a known custom error.
+   */
+  private decodeRevertReason(output: Hex): string | undefined {
+    try {
+      const result = decodeErrorResult({ abi: this.errors as Abi, data: output });
+      return formatRevertReason(result.errorName, result.args);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Create a registry containing the given ABIs.
+ */
+export function createForwarderAbiRegistry(abis: readonly KnownAbi[]): ForwarderAbiRegistry {
+  const registry = new ForwarderAbiRegistry();
+  for (const known of abis) {
+    registry.register(known);
+  }
+  return registry;
+}
+
+/**
+ * Registry with all ABIs shipped with the indexer.
+ */
+export const forwarderAbiRegistry = createForwarderAbiRegistry(KNOWN_ABIS);
+
+/**
+ * Decode a ForwarderCallExecuted event's input and output using the known ABIs.
+ */
+export function decodeForwarderCall(input: string, output: string): DecodedForwarderCall {
+  return forwarderAbiRegistry.decode(input, output);
+}
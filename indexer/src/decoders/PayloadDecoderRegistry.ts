@@ -0,0 +1,137 @@
+/**
+ * Registry of application-specific payload decoders.
+ *
+ * Payload blob formats are defined by each Anoma application, but every payload belongs to a
+ * resource whose logicRef (the logic verifying key) identifies the application. Applications
+ * register a decoder for their verifying key and the payload kinds they understand, and the
+ * event handlers look decoders up by logicRef and kind.
+ *
+ * Application decoders live in ./apps and are registered in ./apps/index.ts.
+ */
+
+import type { Hex } from "viem";
+import { toJsonValue, type JsonValue } from "../utils/json";
+import { APPLICATION_DECODERS } from "./apps";
+
+/**
+ * Payload kinds, matching the AppData fields in PA-EVM Logic.sol.
+ */
+export type PayloadDecoderKind = "resource" | "discovery" | "external" | "application";
+
+/**
+ * Information about the payload being decoded.
+ */
+export interface PayloadDecoderInput {
+  kind: PayloadDecoderKind;
+  logicRef: Hex;
+  tag: Hex;
+  index: number;
+  blob: Hex;
+}
+
+/**
+ * An application-specific payload decoder.
+ *
+ * decode() returns the structured payload. Values must be JSON-serializable; bigints are
+ * stored as decimal strings. Throwing marks the payload as failed to decode.
+ */
+export interface PayloadDecoder {
+  name: string;
+  version: string;
+  logicRef: Hex;
+  kinds: readonly PayloadDecoderKind[];
+  decode(input: PayloadDecoderInput): unknown;
+}
+
+export interface PayloadDecodeResult {
+  decoderName: string;
+  decoderVersion: string;
+  data: JsonValue;
+  error?: string;
+}
+
+export class PayloadDecoderRegistry {
+  private decoders: Map<string, PayloadDecoder> = new Map();
+
+  private static key(logicRef: string, kind: PayloadDecoderKind): string {
+    return `${logicRef.toLowerCase()}_${kind}`;
+  }
+
+  /**
+   * Register a decoder for each of its payload kinds.
+   * Throws if another decoder is already registered for the same logicRef and kind.
+   */
+  register(decoder: PayloadDecoder): void {
+    for (const kind of decoder.kinds) {
+      const key = PayloadDecoderRegistry.key(decoder.logicRef, kind);
+      const existing = this.decoders.get(key);
+      if (existing) {
+        throw new Error(
+          `Decoder ${existing.name} is already registered for ${kind} payloads of ${decoder.logicRef}`
+        );
+      }
+      this.decoders.set(key, decoder);
+    }
+  }
+
+  /**
+   * Get the decoder registered for a logicRef and payload kind.
+   */
+  get(logicRef: string, kind: PayloadDecoderKind): PayloadDecoder | undefined {
+    return this.decoders.get(PayloadDecoderRegistry.key(logicRef, kind));
+  }
+
+  /**
+   * Decode a payload with the matching decoder.
+   *
+   * @returns The decoded payload, a result with an error if the decoder failed,
+   *          or null if no decoder is registered
+   */
+  decode(input: PayloadDecoderInput): PayloadDecodeResult | null {
+    const decoder = this.get(input.logicRef, input.kind);
+    if (!decoder) {
+      return null;
+    }
+
+    try {
+      return {
+        decoderName: decoder.name,
+        decoderVersion: decoder.version,
+        data: toJsonValue(decoder.decode(input)),
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return {
+        decoderName: decoder.name,
+        decoderVersion: decoder.version,
+        data: null,
+        error: message,
+      };
+    }
+  }
+
+  /**
+   * Get the number of registered (logicRef, kind) pairs.
+   */
+  get size(): number {
+    return this.decoders.size;
+  }
+}
+
+/**
+ * Create a registry containing the given decoders.
+ */
+export function createPayloadDecoderRegistry(
+  decoders: readonly PayloadDecoder[]
+): PayloadDecoderRegistry {
+  const registry = new PayloadDecoderRegistry();
+  for (const decoder of decoders) {
+    registry.register(decoder);
+  }
+  return registry;
+}
+
+/**
+ * Registry with all application decoders shipped with the indexer.
+ */
+export const payloadDecoderRegistry = createPayloadDecoderRegistry(APPLICATION_DECODERS);
@@ -0,0 +1,176 @@
+/**
+ * Registry of Protocol Adapter versions.
+ *
+ * PA-EVM upgrades may change the Transaction struct, and with it the execute() ABI and
+ * selector. Each version registers its execute ABI and a converter from the decoded ABI tuple
+ * to the indexer's Transaction type. Deployments (by chain and contract address or start block)
+ * can be pinned to a version; calldata of other deployments is decoded with the version whose
+ * execute selector matches.
+ *
+ * Versions live in ./versions and are registered in ./versions/index.ts, deployments in
+ * ./versions/deployments.json. The pins are not part of config.yaml because Envio validates
+ * it against a fixed schema that rejects unknown keys on networks and contracts. Event
+ * signatures are not part of a version either: Envio subscribes to the events listed in
+ * config.yaml, so a release with different events needs its own contract entry there.
+ */
+
+import { toFunctionSelector, type Abi, type AbiFunction } from "viem";
+import type { Transaction } from "../types";
+import { PROTOCOL_ADAPTER_DEPLOYMENTS, PROTOCOL_ADAPTER_VERSIONS } from "./versions";
+
+/**
+ * A Protocol Adapter version.
+ *
+ * executeAbi must contain the execute() function. convertTransaction() receives its decoded
+ * first argument; encodeTransaction() is its inverse and returns the argument to encode.
+ */
+export interface ProtocolAdapterVersion {
+  name: string;
+  executeAbi: Abi;
+  convertTransaction(raw: unknown): Transaction;
+  encodeTransaction(transaction: Transaction): unknown;
+}
+
+/**
+ * Pins the Protocol Adapter deployments of a chain to a version.
+ *
+ * Without an address the entry applies to every deployment on the chain. Without a start
+ * block it applies from genesis. The most specific matching entry wins: address entries over
+ * chain-wide ones, then the latest start block.
+ */
+export interface ProtocolAdapterDeployment {
+  chainId: number;
+  address?: string;
+  startBlock?: number;
+  version: string;
+}
+
+/**
+ * Returns the selector of a version's execute() function.
+ */
+export function getExecuteSelector(version: ProtocolAdapterVersion): string {
+  const execute = version.executeAbi.find(
+    (item): item is AbiFunction => item.type === "function" && item.name === "execute"
+  );
+  if (!execute) {
+    throw new Error(`Protocol Adapter version ${version.name} has no execute function`);
+  }
+  return toFunctionSelector(execute);
+}
+
+export class ProtocolAdapterVersionRegistry {
+  private versions: Map<string, ProtocolAdapterVersion> = new Map();
+  private selectors: Map<string, ProtocolAdapterVersion> = new Map();
+  private deployments: ProtocolAdapterDeployment[] = [];
+
+  /**
+   * Register a version.
+   * Throws if its name or execute selector is already registered.
+   */
+  register(version: ProtocolAdapterVersion): void {
+    if (this.versions.has(version.name)) {
+      throw new Error(`Protocol Adapter version ${version.name} is already registered`);
+    }
+
+    const selector = getExecuteSelector(version);
+    const existing = this.selectors.get(selector);
+    if (existing) {
+      throw new Error(
+        `Execute selector ${selector} of ${version.name} is already registered by ${existing.name}`
+      );
+    }
+
+    this.versions.set(version.name, version);
+    this.selectors.set(selector, version);
+  }
+
+  /**
+   * Pin deployments to a version.
+   * Throws if the version is not registered.
+   */
+  addDeployment(deployment: ProtocolAdapterDeployment): void {
+    if (!this.versions.has(deployment.version)) {
+      throw new Error(
+        `Deployment on chain ${deployment.chainId} references unknown version ${deployment.version}`
+      );
+    }
+    this.deployments.push(deployment);
+  }
+
+  /**
+   * Get a version by name.
+   */
+  get(name: string): ProtocolAdapterVersion | undefined {
+    return this.versions.get(name);
+  }
+
+  /**
+   * Get the version whose execute() has the given 4-byte selector.
+   */
+  getBySelector(selector: string): ProtocolAdapterVersion | undefined {
+    return this.selectors.get(selector.toLowerCase());
+  }
+
+  /**
+   * Get the version pinned for a deployment at a block, if any.
+   */
+  resolve(
+    chainId: number,
+    address: string,
+    blockNumber: number
+  ): ProtocolAdapterVersion | undefined {
+    let best: ProtocolAdapterDeployment | undefined;
+
+    for (const deployment of this.deployments) {
+      if (
+        deployment.chainId !== chainId ||
+        (deployment.address && deployment.address.toLowerCase() !== address.toLowerCase()) ||
+        (deployment.startBlock ?? 0) > blockNumber
+      ) {
+        continue;
+      }
+      if (
+        !best ||
+        (deployment.address && !best.address) ||
+        (!!deployment.address === !!best.address &&
+          (deployment.startBlock ?? 0) > (best.startBlock ?? 0))
+      ) {
+        best = deployment;
+      }
+    }
+
+    return best && this.versions.get(best.version);
+  }
+
+  /**
+   * Get the number of registered versions.
+   */
+  get size(): number {
+    return this.versions.size;
+  }
+}
+
+/**
+ * Create a registry containing the given versions and deployments.
+ */
+export function createProtocolAdapterVersionRegistry(
+  versions: readonly ProtocolAdapterVersion[],
+  deployments: readonly ProtocolAdapterDeployment[] = []
+): ProtocolAdapterVersionRegistry {
+  const registry = new ProtocolAdapterVersionRegistry();
+  for (const version of versions) {
+    registry.register(version);
+  }
+  for (const deployment of deployments) {
+    registry.addDeployment(deployment);
+  }
+  return registry;
+}
+
+/**
+ * Registry with all Protocol Adapter versions and deployments shipped with the indexer.
+ */
+export const protocolAdapterVersionRegistry = createProtocolAdapterVersionRegistry(
+  PROTOCOL_ADAPTER_VERSIONS,
+  PROTOCOL_ADAPTER_DEPLOYMENTS
+);
@@ -1,13 +1,41 @@
 /**
  * Decoder for Resource blobs from ResourcePayload events.
  *
- * IMPORTANT: The ResourcePayload blob is application-specific data, NOT a serialized
- * Resource struct. The Resource struct is embedded in the transaction calldata.
- * This decoder attempts to extract useful information from the blob but may not
- * always succeed as the format is application-dependent.
+ * IMPORTANT: The ResourcePayload blob is application-specific data. Applications that
+ * publish the resource itself emit it as an ABI-encoded Resource struct, which is decoded
+ * here. Any other format is kept raw, with a best-effort format hint.
  */
 
-import { DecodedResource } from "../types/Resource";
+import { decodeAbiParameters, type Hex } from "viem";
+import { DecodedResource, Resource } from "../types/Resource";
+import { RESOURCE_ABI } from "../utils/abi";
+
+/**
+ * Size of an ABI-encoded Resource struct: 8 static 32-byte words.
+ */
+const RESOURCE_ENCODED_SIZE = 8 * 32;
+
+const MAX_UINT128 = (1n << 128n) - 1n;
+
+/**
+ * Decodes a blob as an ABI-encoded Resource struct.
+ * Returns null unless the blob is exactly one well-formed Resource.
+ */
+function decodeResourceStruct(blob: Hex): Resource | null {
+  if ((blob.length - 2) / 2 !== RESOURCE_ENCODED_SIZE) {
+    return null;
+  }
+
+  try {
+    const [resource] = decodeAbiParameters(RESOURCE_ABI, blob);
+    if (resource.quantity > MAX_UINT128) {
+      return null;
+    }
+    return { ...resource };
+  } catch {
+    return null;
+  }
+}
 
 /**
  * Detects the blob format based on prefix bytes.
@@ -26,8 +54,8 @@ function detectBlobFormat(blob: string): string {
  * Safely decodes a Resource blob with input validation.
  *
  * The ResourcePayload blob contains application-specific data that accompanies
- * a resource. This is NOT the Resource struct itself - that data is in the
- * transaction calldata. We store the raw blob and mark format detection status.
+ * a resource. If it is an ABI-encoded Resource struct, its fields are decoded.
+ * Otherwise we store the raw blob and mark format detection status.
  *
  * @param blob - The blob string (with or without 0x prefix)
  * @returns DecodedResource with status and format info
@@ -54,11 +82,20 @@ export function safeDecodeResourceBlob(blob: string): DecodedResource {
     };
   }
 
+  // Decode ABI-encoded Resource structs
+  const resource = decodeResourceStruct(normalizedBlob as Hex);
+  if (resource) {
+    return {
+      resource,
+      status: "success",
+      error: undefined,
+    };
+  }
+
   // Detect the format
   const format = detectBlobFormat(normalizedBlob);
 
-  // For now, we store the raw blob but don't decode it since the format
-  // is application-specific. The blob data can be analyzed externally.
+  // Any other format is application-specific. The blob data can be analyzed externally.
   // Mark as "raw" to indicate we have data but couldn't decode structured fields.
   return {
     resource: null,
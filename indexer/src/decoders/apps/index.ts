@@ -0,0 +1,11 @@
+/**
+ * Application payload decoders.
+ *
+ * To add a decoder for an Anoma application, create a module in this directory that exports
+ * a PayloadDecoder for the application's logic verifying key, and add it to the list below.
+ * The event handlers pick it up through the payload decoder registry.
+ */
+
+import type { PayloadDecoder } from "../PayloadDecoderRegistry";
+
+export const APPLICATION_DECODERS: readonly PayloadDecoder[] = [];
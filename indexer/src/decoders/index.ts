@@ -3,3 +3,6 @@
  */
 
 export * from "./ResourceDecoder";
+export * from "./PayloadDecoderRegistry";
+export * from "./ForwarderCallDecoder";
+export * from "./ProtocolAdapterVersionRegistry";
@@ -0,0 +1,24 @@
+/**
+ * Protocol Adapter versions and deployments.
+ *
+ * To support a new PA-EVM release, create a module in this directory that exports a
+ * ProtocolAdapterVersion with the release's execute() ABI, and add it to the list below. To
+ * decode a deployment with a specific version regardless of its calldata selector, add an entry
+ * to deployments.json.
+ */
+
+import type {
+  ProtocolAdapterDeployment,
+  ProtocolAdapterVersion,
+} from "../ProtocolAdapterVersionRegistry";
+import deployments from "./deployments.json";
+import { PROTOCOL_ADAPTER_V1 } from "./v1";
+
+export const PROTOCOL_ADAPTER_VERSIONS: readonly ProtocolAdapterVersion[] = [PROTOCOL_ADAPTER_V1];
+
+/**
+ * The current PA-EVM release, used to encode calldata when no version is given.
+ */
+export const LATEST_PROTOCOL_ADAPTER_VERSION: ProtocolAdapterVersion = PROTOCOL_ADAPTER_V1;
+
+export const PROTOCOL_ADAPTER_DEPLOYMENTS: readonly ProtocolAdapterDeployment[] = deployments;
@@ -0,0 +1,114 @@
+/**
+ * Incrementally maintained hourly and daily activity buckets.
+ *
+ * Every handler adds what it indexed to the ActivityHourly and ActivityDaily entities of the
+ * bucket containing its block timestamp, so activity charts can read one row per bucket
+ * instead of bucketing every Transaction.
+ */
+
+import type { ActivityDaily, ActivityHourly, handlerContext } from "generated";
+
+export const HOUR_SECONDS = 3600;
+export const DAY_SECONDS = 86400;
+
+/**
+ * Activity fields that count indexed entities.
+ */
+export const ACTIVITY_COUNTERS = [
+  "transactionCount",
+  "actionCount",
+  "createdResourceCount",
+  "consumedResourceCount",
+  "payloadCount",
+  "forwarderCallCount",
+] as const;
+
+export type ActivityCounter = (typeof ACTIVITY_COUNTERS)[number];
+
+/**
+ * Amounts to add to the activity buckets of an event.
+ */
+export type ActivityDelta = Partial<Record<ActivityCounter, number>> & {
+  payloadBytes?: number;
+  gasUsed?: bigint;
+};
+
+/**
+ * Returns the start of the bucket of the given size containing a timestamp.
+ */
+export function getBucketStart(timestamp: number, bucketSeconds: number): number {
+  return Math.floor(timestamp / bucketSeconds) * bucketSeconds;
+}
+
+/**
+ * Creates the activity bucket identifier for a chain and bucket start.
+ */
+export function createActivityId(chainId: number, bucketStart: number): string {
+  return `${chainId}_${bucketStart}`;
+}
+
+/**
+ * Creates an empty activity bucket.
+ */
+function createEmptyActivity(chainId: number, bucketStart: number): ActivityHourly {
+  return {
+    id: createActivityId(chainId, bucketStart),
+    chainId,
+    bucketStart,
+    transactionCount: 0,
+    actionCount: 0,
+    createdResourceCount: 0,
+    consumedResourceCount: 0,
+    payloadCount: 0,
+    payloadBytes: 0n,
+    forwarderCallCount: 0,
+    gasUsed: 0n,
+    firstBlock: 0,
+    lastBlock: 0,
+  };
+}
+
+/**
+ * Adds a delta to an activity bucket.
+ */
+function applyActivityDelta(
+  bucket: ActivityHourly,
+  blockNumber: number,
+  delta: ActivityDelta
+): ActivityHourly {
+  const counters = Object.fromEntries(
+    ACTIVITY_COUNTERS.map((counter) => [counter, bucket[counter] + (delta[counter] ?? 0)])
+  ) as Record<ActivityCounter, number>;
+
+  return {
+    ...bucket,
+    ...counters,
+    payloadBytes: bucket.payloadBytes + BigInt(delta.payloadBytes ?? 0),
+    gasUsed: bucket.gasUsed + (delta.gasUsed ?? 0n),
+    firstBlock: bucket.firstBlock === 0 ? blockNumber : Math.min(bucket.firstBlock, blockNumber),
+    lastBlock: Math.max(bucket.lastBlock, blockNumber),
+  };
+}
+
+/**
+ * Adds a delta to the hourly and daily activity buckets containing the event's block.
+ */
+export async function updateActivity(
+  context: handlerContext,
+  event: { chainId: number; block: { number: number; timestamp: number } },
+  delta: ActivityDelta
+): Promise<void> {
+  const { chainId, block } = event;
+
+  const hourStart = getBucketStart(block.timestamp, HOUR_SECONDS);
+  const hourly: ActivityHourly =
+    (await context.ActivityHourly.get(createActivityId(chainId, hourStart))) ??
+    createEmptyActivity(chainId, hourStart);
+  context.ActivityHourly.set(applyActivityDelta(hourly, block.number, delta));
+
+  const dayStart = getBucketStart(block.timestamp, DAY_SECONDS);
+  const daily: ActivityDaily =
+    (await context.ActivityDaily.get(createActivityId(chainId, dayStart))) ??
+    createEmptyActivity(chainId, dayStart);
+  context.ActivityDaily.set(applyActivityDelta(daily, block.number, delta));
+}
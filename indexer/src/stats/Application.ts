@@ -0,0 +1,136 @@
+/**
+ * Incrementally maintained per-application aggregates.
+ *
+ * An Anoma application is identified by the logicRef (logic verifying key) of its resources.
+ * Handlers add the resources, transactions and payloads they index to the Application entity
+ * of the resource's chain and logicRef, and to the LogicRef that sums them across chains.
+ */
+
+import type { Application, LogicRef, handlerContext } from "generated";
+import { addChainId, type CrossChainEvent } from "./CrossChain";
+
+/**
+ * Application fields that count indexed entities.
+ */
+export const APPLICATION_COUNTERS = [
+  "transactionCount",
+  "createdResourceCount",
+  "consumedResourceCount",
+  "resourcePayloadCount",
+  "discoveryPayloadCount",
+  "externalPayloadCount",
+  "applicationPayloadCount",
+] as const;
+
+export type ApplicationCounter = (typeof APPLICATION_COUNTERS)[number];
+
+/**
+ * Amounts to add to an application's aggregates.
+ */
+export type ApplicationDelta = Partial<Record<ApplicationCounter, number>>;
+
+/**
+ * Creates the Application identifier for a chain and logicRef.
+ */
+export function createApplicationId(chainId: number, logicRef: string): string {
+  return `${chainId}_${logicRef.toLowerCase()}`;
+}
+
+/**
+ * Creates the global LogicRef identifier.
+ */
+export function createLogicRefId(logicRef: string): string {
+  return logicRef.toLowerCase();
+}
+
+/**
+ * Adds an application delta to the logicRef's aggregates across chains,
+ * creating them if this is the first time the logicRef is seen on any chain.
+ */
+export async function updateLogicRef(
+  context: handlerContext,
+  event: CrossChainEvent,
+  logicRef: string,
+  delta: ApplicationDelta
+): Promise<void> {
+  const id = createLogicRefId(logicRef);
+  const existing = await context.LogicRef.get(id);
+  const global: LogicRef = existing ?? {
+    id,
+    chainIds: [],
+    firstTimestamp: event.block.timestamp,
+    lastTimestamp: event.block.timestamp,
+    transactionCount: 0,
+    createdResourceCount: 0,
+    consumedResourceCount: 0,
+    resourcePayloadCount: 0,
+    discoveryPayloadCount: 0,
+    externalPayloadCount: 0,
+    applicationPayloadCount: 0,
+  };
+
+  const counters = Object.fromEntries(
+    APPLICATION_COUNTERS.map((counter) => [counter, global[counter] + (delta[counter] ?? 0)])
+  ) as Record<ApplicationCounter, number>;
+
+  context.LogicRef.set({
+    ...global,
+    ...counters,
+    chainIds: addChainId(global.chainIds, event.chainId),
+    firstTimestamp: Math.min(global.firstTimestamp, event.block.timestamp),
+    lastTimestamp: Math.max(global.lastTimestamp, event.block.timestamp),
+  });
+}
+
+/**
+ * Creates an empty application first seen in the given block.
+ */
+function createEmptyApplication(
+  chainId: number,
+  logicRef: string,
+  blockNumber: number
+): Application {
+  return {
+    id: createApplicationId(chainId, logicRef),
+    chainId,
+    logicRef: logicRef.toLowerCase(),
+    firstSeenBlock: blockNumber,
+    lastSeenBlock: blockNumber,
+    transactionCount: 0,
+    createdResourceCount: 0,
+    consumedResourceCount: 0,
+    resourcePayloadCount: 0,
+    discoveryPayloadCount: 0,
+    externalPayloadCount: 0,
+    applicationPayloadCount: 0,
+    globalLogicRef_id: createLogicRefId(logicRef),
+  };
+}
+
+/**
+ * Adds a delta to the application with the given logicRef on the event's chain,
+ * creating it if this is the first time the logicRef is seen, and to its cross-chain LogicRef.
+ */
+export async function updateApplication(
+  context: handlerContext,
+  event: CrossChainEvent,
+  logicRef: string,
+  delta: ApplicationDelta
+): Promise<void> {
+  const existing = await context.Application.get(createApplicationId(event.chainId, logicRef));
+  const application =
+    existing ?? createEmptyApplication(event.chainId, logicRef, event.block.number);
+
+  const counters = Object.fromEntries(
+    APPLICATION_COUNTERS.map((counter) => [counter, application[counter] + (delta[counter] ?? 0)])
+  ) as Record<ApplicationCounter, number>;
+
+  context.Application.set({
+    ...application,
+    ...counters,
+    firstSeenBlock: Math.min(application.firstSeenBlock, event.block.number),
+    lastSeenBlock: Math.max(application.lastSeenBlock, event.block.number),
+  });
+
+  await updateLogicRef(context, event, logicRef, delta);
+}
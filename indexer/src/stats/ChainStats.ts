@@ -0,0 +1,91 @@
+/**
+ * Incrementally maintained per-chain entity counters.
+ *
+ * Every handler adds what it indexed to the ChainStats entity of its chain, so dashboards can
+ * read exact totals with a single lookup instead of counting entity lists.
+ */
+
+import type { ChainStats, handlerContext } from "generated";
+
+/**
+ * ChainStats fields that count indexed entities.
+ */
+export const CHAIN_STATS_COUNTERS = [
+  "transactionCount",
+  "actionCount",
+  "complianceUnitCount",
+  "logicInputCount",
+  "consumedResourceCount",
+  "createdResourceCount",
+  "resourcePayloadCount",
+  "discoveryPayloadCount",
+  "externalPayloadCount",
+  "applicationPayloadCount",
+  "forwarderCallCount",
+  "commitmentTreeRootCount",
+] as const;
+
+export type ChainStatsCounter = (typeof CHAIN_STATS_COUNTERS)[number];
+
+/**
+ * Amounts to add to a chain's stats.
+ */
+export type ChainStatsDelta = Partial<Record<ChainStatsCounter, number>> & {
+  gasUsed?: bigint;
+};
+
+/**
+ * Creates the ChainStats identifier for a chain.
+ */
+export function createChainStatsId(chainId: number): string {
+  return `${chainId}`;
+}
+
+/**
+ * Creates empty stats for a chain.
+ */
+function createEmptyChainStats(chainId: number): ChainStats {
+  return {
+    id: createChainStatsId(chainId),
+    chainId,
+    transactionCount: 0,
+    actionCount: 0,
+    complianceUnitCount: 0,
+    logicInputCount: 0,
+    consumedResourceCount: 0,
+    createdResourceCount: 0,
+    resourcePayloadCount: 0,
+    discoveryPayloadCount: 0,
+    externalPayloadCount: 0,
+    applicationPayloadCount: 0,
+    forwarderCallCount: 0,
+    commitmentTreeRootCount: 0,
+    totalGasUsed: 0n,
+    latestBlock: 0,
+    latestTimestamp: 0,
+  };
+}
+
+/**
+ * Adds a delta to the stats of the event's chain and advances its latest block and timestamp.
+ */
+export async function updateChainStats(
+  context: handlerContext,
+  event: { chainId: number; block: { number: number; timestamp: number } },
+  delta: ChainStatsDelta
+): Promise<void> {
+  const existing = await context.ChainStats.get(createChainStatsId(event.chainId));
+  const stats = existing ?? createEmptyChainStats(event.chainId);
+
+  const counters = Object.fromEntries(
+    CHAIN_STATS_COUNTERS.map((counter) => [counter, stats[counter] + (delta[counter] ?? 0)])
+  ) as Record<ChainStatsCounter, number>;
+
+  context.ChainStats.set({
+    ...stats,
+    ...counters,
+    totalGasUsed: stats.totalGasUsed + (delta.gasUsed ?? 0n),
+    latestBlock: Math.max(stats.latestBlock, event.block.number),
+    latestTimestamp: Math.max(stats.latestTimestamp, event.block.timestamp),
+  });
+}
@@ -0,0 +1,83 @@
+/**
+ * Incrementally maintained cross-chain index of tags.
+ *
+ * The Protocol Adapter is indexed on several chains in unordered multichain mode, so events of
+ * different chains arrive in any order. Every aggregate here is order-independent: counters are
+ * summed, chain IDs are kept as a sorted set and timestamps as a min/max range. The logicRef
+ * counterpart is maintained with the per-chain applications (see Application.ts).
+ */
+
+import type { Tag, TagAppearance, handlerContext } from "generated";
+
+export type CrossChainEvent = { chainId: number; block: { number: number; timestamp: number } };
+
+/**
+ * Adds a chain ID to an ascending list of chain IDs.
+ */
+export function addChainId(chainIds: readonly number[], chainId: number): number[] {
+  return chainIds.includes(chainId) ? [...chainIds] : [...chainIds, chainId].sort((a, b) => a - b);
+}
+
+/**
+ * Creates the global Tag identifier.
+ */
+export function createGlobalTagId(tag: string): string {
+  return tag.toLowerCase();
+}
+
+/**
+ * Creates the TagAppearance identifier for a tag index of a transaction.
+ */
+export function createTagAppearanceId(txId: string, index: number): string {
+  return `${txId}_${index}`;
+}
+
+/**
+ * Records an appearance of a TransactionExecuted tag and adds it to the tag's global aggregates.
+ */
+export async function recordTagAppearance(
+  context: handlerContext,
+  event: CrossChainEvent,
+  appearance: {
+    tag: string;
+    index: number;
+    isConsumed: boolean;
+    transactionId: string;
+    resourceId: string;
+  }
+): Promise<void> {
+  const id = createGlobalTagId(appearance.tag);
+  const existing = await context.Tag.get(id);
+  const tag: Tag = existing ?? {
+    id,
+    chainIds: [],
+    appearanceCount: 0,
+    nullifierCount: 0,
+    commitmentCount: 0,
+    firstTimestamp: event.block.timestamp,
+    lastTimestamp: event.block.timestamp,
+  };
+
+  context.Tag.set({
+    ...tag,
+    chainIds: addChainId(tag.chainIds, event.chainId),
+    appearanceCount: tag.appearanceCount + 1,
+    nullifierCount: tag.nullifierCount + (appearance.isConsumed ? 1 : 0),
+    commitmentCount: tag.commitmentCount + (appearance.isConsumed ? 0 : 1),
+    firstTimestamp: Math.min(tag.firstTimestamp, event.block.timestamp),
+    lastTimestamp: Math.max(tag.lastTimestamp, event.block.timestamp),
+  });
+
+  const entity: TagAppearance = {
+    id: createTagAppearanceId(appearance.transactionId, appearance.index),
+    tag_id: id,
+    chainId: event.chainId,
+    blockNumber: event.block.number,
+    timestamp: event.block.timestamp,
+    index: appearance.index,
+    isConsumed: appearance.isConsumed,
+    transaction_id: appearance.transactionId,
+    resource_id: appearance.resourceId,
+  };
+  context.TagAppearance.set(entity);
+}
@@ -0,0 +1,8 @@
+/**
+ * Aggregate statistics maintained by the event handlers.
+ */
+
+export * from "./ChainStats";
+export * from "./Activity";
+export * from "./Application";
+export * from "./CrossChain";
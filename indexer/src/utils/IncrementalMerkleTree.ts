@@ -0,0 +1,134 @@
+import type { Hex } from "viem";
+import { computeEmptySubtreeRoot, computeMinimalTreeDepth, hashPair } from "./merkle";
+
+/**
+ * An append-only Merkle tree that only keeps its frontier in memory.
+ *
+ * Mirrors PA-EVM's commitment accumulator: leaves are appended in order, the tree grows to
+ * the minimal depth that holds all leaves, and missing leaves are padded with the empty leaf.
+ * The root therefore always equals computeMerkleRoot() over all appended leaves.
+ *
+ * The frontier holds, for every level, the most recently completed node at that level.
+ * It can be persisted and passed back to the constructor to resume the tree.
+ */
+export class IncrementalMerkleTree {
+  private branches: Hex[];
+  private size: number;
+
+  constructor(frontier: readonly Hex[] = [], leafCount = 0) {
+    if (leafCount < 0) {
+      throw new Error("leafCount must not be negative");
+    }
+    this.branches = [...frontier];
+    this.size = leafCount;
+  }
+
+  /**
+   * Get the number of appended leaves.
+   */
+  get leafCount(): number {
+    return this.size;
+  }
+
+  /**
+   * Get a copy of the frontier, suitable for persisting the tree.
+   */
+  get frontier(): Hex[] {
+    return [...this.branches];
+  }
+
+  /**
+   * Append a leaf and return its index.
+   */
+  append(leaf: Hex): number {
+    const leafIndex = this.size;
+    let node = leaf;
+    let index = leafIndex;
+    let level = 0;
+
+    // Combine with completed left siblings until this node becomes a left child
+    while (index % 2 === 1) {
+      node = hashPair(this.branches[level], node);
+      index = Math.floor(index / 2);
+      level++;
+    }
+
+    this.branches[level] = node;
+    this.size++;
+    return leafIndex;
+  }
+
+  /**
+   * Compute the current root.
+   */
+  root(): Hex {
+    const depth = computeMinimalTreeDepth(this.size);
+
+    // A full tree's root is the last completed node at the top level
+    if (this.size > 0 && this.size === 2 ** depth) {
+      return this.branches[depth];
+    }
+
+    let node = computeEmptySubtreeRoot(0);
+    let size = this.size;
+    for (let level = 0; level < depth; level++) {
+      node =
+        size % 2 === 1
+          ? hashPair(this.branches[level], node)
+          : hashPair(node, computeEmptySubtreeRoot(level));
+      size = Math.floor(size / 2);
+    }
+    return node;
+  }
+
+  /**
+   * Append several leaves and return their indices together with their sibling paths
+   * against the root after the last leaf has been appended.
+   *
+   * The nodes containing batch leaves are computed once per level, bottom-up. A sibling left
+   * of them was completed before the batch and is taken from the previous frontier; a sibling
+   * right of them only holds empty leaves. This keeps the work linear in the batch size.
+   */
+  appendAll(leaves: readonly Hex[]): { indices: number[]; paths: Hex[][]; root: Hex } {
+    const firstIndex = this.size;
+    const previousFrontier = [...this.branches];
+    for (const leaf of leaves) {
+      this.append(leaf);
+    }
+
+    const indices = leaves.map((_, i) => firstIndex + i);
+    if (leaves.length === 0) {
+      return { indices, paths: [], root: this.root() };
+    }
+
+    // levels[level] holds the nodes at that height containing batch leaves, from offsets[level]
+    const depth = computeMinimalTreeDepth(this.size);
+    const levels: Hex[][] = [[...leaves]];
+    const offsets: number[] = [firstIndex];
+    const nodeAt = (level: number, index: number): Hex => {
+      if (index < offsets[level]) {
+        return previousFrontier[level];
+      }
+      return levels[level][index - offsets[level]] ?? computeEmptySubtreeRoot(level);
+    };
+
+    for (let level = 0; level < depth; level++) {
+      const offset = Math.floor(offsets[level] / 2);
+      const last = Math.floor((this.size - 1) / 2 ** (level + 1));
+      const parents: Hex[] = [];
+      for (let index = offset; index <= last; index++) {
+        parents.push(hashPair(nodeAt(level, 2 * index), nodeAt(level, 2 * index + 1)));
+      }
+      levels.push(parents);
+      offsets.push(offset);
+    }
+
+    const paths = indices.map((leafIndex) =>
+      Array.from({ length: depth }, (_, level) =>
+        nodeAt(level, Math.floor(leafIndex / 2 ** level) ^ 1)
+      )
+    );
+
+    return { indices, paths, root: levels[depth][0] };
+  }
+}
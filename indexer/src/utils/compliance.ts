@@ -0,0 +1,91 @@
+/**
+ * Matching of an action's logic inputs to its compliance units.
+ *
+ * Every tag of an action is the nullifier (consumed) or the commitment (created) of one of its
+ * compliance units, and the unit's consumed/created logicRef must equal the verifying key of
+ * the logic input with that tag. Logic inputs are usually ordered consumed, created, ... but
+ * PA-EVM does not require it, so the consumed/created status is taken from the units.
+ */
+
+import type { Action } from "../types";
+
+export interface LogicInputMatch {
+  /** Index of the compliance unit whose nullifier or commitment is the tag, -1 if none */
+  complianceUnitIndex: number;
+  /** Whether the tag is the unit's nullifier; undefined if no unit holds the tag */
+  isConsumed: boolean | undefined;
+  /** The unit's logicRef for the tag differs from the logic input's verifying key */
+  logicRefMismatch: boolean;
+}
+
+export interface ComplianceUnitMatch {
+  /** Index of the logic input with the unit's nullifier, -1 if none */
+  consumedLogicInputIndex: number;
+  /** Index of the logic input with the unit's commitment, -1 if none */
+  createdLogicInputIndex: number;
+  /** consumedLogicRef differs from the verifying key of the nullifier's logic input */
+  consumedLogicRefMismatch: boolean;
+  /** createdLogicRef differs from the verifying key of the commitment's logic input */
+  createdLogicRefMismatch: boolean;
+}
+
+export interface ActionMatch {
+  logicInputs: LogicInputMatch[];
+  complianceUnits: ComplianceUnitMatch[];
+}
+
+/**
+ * Matches the logic inputs of an action to its compliance units by tag
+ * and checks the units' logicRefs against the logic inputs' verifying keys.
+ */
+export function matchLogicInputs(action: Action): ActionMatch {
+  const logicInputIndices = new Map(
+    action.logicVerifierInputs.map((li, index) => [li.tag.toLowerCase(), index])
+  );
+  const logicInputs: LogicInputMatch[] = action.logicVerifierInputs.map(() => ({
+    complianceUnitIndex: -1,
+    isConsumed: undefined,
+    logicRefMismatch: false,
+  }));
+
+  // Returns the logic input index for a unit tag and whether its verifying key differs
+  const matchSide = (
+    unitIndex: number,
+    tag: string,
+    logicRef: string,
+    isConsumed: boolean
+  ): [number, boolean] => {
+    const index = logicInputIndices.get(tag.toLowerCase());
+    if (index === undefined) {
+      return [-1, false];
+    }
+    const mismatch =
+      action.logicVerifierInputs[index].verifyingKey.toLowerCase() !== logicRef.toLowerCase();
+    logicInputs[index] = { complianceUnitIndex: unitIndex, isConsumed, logicRefMismatch: mismatch };
+    return [index, mismatch];
+  };
+
+  const complianceUnits = action.complianceVerifierInputs.map((cu, unitIndex) => {
+    const { consumed, created } = cu.instance;
+    const [consumedLogicInputIndex, consumedLogicRefMismatch] = matchSide(
+      unitIndex,
+      consumed.nullifier,
+      consumed.logicRef,
+      true
+    );
+    const [createdLogicInputIndex, createdLogicRefMismatch] = matchSide(
+      unitIndex,
+      created.commitment,
+      created.logicRef,
+      false
+    );
+    return {
+      consumedLogicInputIndex,
+      createdLogicInputIndex,
+      consumedLogicRefMismatch,
+      createdLogicRefMismatch,
+    };
+  });
+
+  return { logicInputs, complianceUnits };
+}
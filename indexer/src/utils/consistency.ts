@@ -0,0 +1,143 @@
+/**
+ * Consistency checks between TransactionExecuted, ActionExecuted and the decoded calldata.
+ *
+ * PA-EVM emits the tags and logicRefs of all logic inputs in action order, one ActionExecuted
+ * event per action with its tag count, and tags in nullifier/commitment pairs. A violation
+ * means the decoder and the contract disagree, e.g. after an unannounced contract change.
+ */
+
+import type { Action } from "../types";
+
+export type ConsistencyCheck =
+  | "tag_mismatch"
+  | "logic_ref_mismatch"
+  | "action_tag_count_mismatch"
+  | "odd_tag_count"
+  | "multiple_execute_calls";
+
+export interface ConsistencyViolation {
+  check: ConsistencyCheck;
+  message: string;
+  /** Tag index the violation refers to, if any */
+  index?: number;
+  /** Value from TransactionExecuted */
+  expected?: string;
+  /** Value from the calldata or the ActionExecuted events */
+  actual?: string;
+}
+
+/**
+ * Checks that the event has an even number of tags.
+ */
+export function checkTagCount(tags: readonly string[]): ConsistencyViolation[] {
+  if (tags.length % 2 === 0) {
+    return [];
+  }
+  return [
+    {
+      check: "odd_tag_count",
+      message: `TransactionExecuted has an odd number of tags (${tags.length})`,
+      expected: "even",
+      actual: String(tags.length),
+    },
+  ];
+}
+
+/**
+ * Checks the event tags and logicRefs against the logic inputs of the decoded actions.
+ *
+ * The logic input tags of all actions, concatenated in order, must equal the event tags, and
+ * each logic input's verifyingKey must equal the event logicRef at the index of its tag.
+ * A tag mismatch is reported once, at the first differing index.
+ */
+export function checkCalldataTags(
+  tags: readonly string[],
+  logicRefs: readonly string[],
+  actions: readonly Action[]
+): ConsistencyViolation[] {
+  const violations: ConsistencyViolation[] = [];
+  const logicInputs = actions.flatMap((action) => action.logicVerifierInputs);
+
+  const mismatch = Array.from(
+    { length: Math.max(tags.length, logicInputs.length) },
+    (_, i) => i
+  ).find((i) => tags[i]?.toLowerCase() !== logicInputs[i]?.tag.toLowerCase());
+  if (mismatch !== undefined) {
+    violations.push({
+      check: "tag_mismatch",
+      message:
+        `Logic input tags differ from TransactionExecuted tags at index ${mismatch} ` +
+        `(${logicInputs.length} logic inputs, ${tags.length} tags)`,
+      index: mismatch,
+      expected: tags[mismatch],
+      actual: logicInputs[mismatch]?.tag,
+    });
+  }
+
+  const tagIndices = new Map(tags.map((tag, index) => [tag.toLowerCase(), index]));
+  for (const li of logicInputs) {
+    const index = tagIndices.get(li.tag.toLowerCase());
+    if (index === undefined || logicRefs[index]?.toLowerCase() === li.verifyingKey.toLowerCase()) {
+      continue;
+    }
+    violations.push({
+      check: "logic_ref_mismatch",
+      message: `verifyingKey of the logic input for tag ${li.tag} differs from logicRefs[${index}]`,
+      index,
+      expected: logicRefs[index],
+      actual: li.verifyingKey,
+    });
+  }
+
+  return violations;
+}
+
+/**
+ * Checks that the ActionExecuted tag counts add up to the number of event tags.
+ *
+ * @param tagCount - Number of TransactionExecuted tags
+ * @param actionCount - Number of ActionExecuted events
+ * @param actionTagCount - Sum of their actionTagCount
+ */
+export function checkActionTagCount(
+  tagCount: number,
+  actionCount: number,
+  actionTagCount: number
+): ConsistencyViolation[] {
+  if (actionTagCount === tagCount) {
+    return [];
+  }
+  return [
+    {
+      check: "action_tag_count_mismatch",
+      message:
+        `ActionExecuted tag counts of ${actionCount} action(s) add up to ${actionTagCount}, ` +
+        `TransactionExecuted has ${tagCount} tags`,
+      expected: String(tagCount),
+      actual: String(actionTagCount),
+    },
+  ];
+}
+
+/**
+ * Checks that the calldata holds a single execute() call.
+ *
+ * A batch wrapper may embed several execute() calls, which emit several TransactionExecuted
+ * events in one EVM transaction. Each call is indexed as its own transaction, keyed by its
+ * position in the calldata.
+ *
+ * @param callCount - Number of execute() calls decoded from the calldata
+ */
+export function checkExecuteCallCount(callCount: number): ConsistencyViolation[] {
+  if (callCount <= 1) {
+    return [];
+  }
+  return [
+    {
+      check: "multiple_execute_calls",
+      message: `Calldata holds ${callCount} execute() calls, each indexed as its own transaction`,
+      expected: "1",
+      actual: String(callCount),
+    },
+  ];
+}
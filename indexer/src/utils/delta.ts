@@ -0,0 +1,125 @@
+/**
+ * Offline verification of a transaction's delta proof.
+ *
+ * PA-EVM sums the unit deltas of all compliance units into the transaction delta, a secp256k1
+ * point, and requires the deltaProof to be an ECDSA signature over keccak256 of the packed
+ * transaction tags by the account derived from that point
+ * (see pa-evm/contracts/src/libs/proving/Delta.sol).
+ */
+
+import {
+  concat,
+  encodeAbiParameters,
+  hexToBigInt,
+  keccak256,
+  recoverAddress,
+  size,
+  slice,
+  type Hex,
+} from "viem";
+import type { Action } from "../types";
+import { addPoints, isOnCurve, SECP256K1_N, type Point } from "./secp256k1";
+
+export interface DeltaVerificationResult {
+  verified: boolean;
+  transactionDelta?: Point;
+  error?: string;
+}
+
+/**
+ * Sums the unit deltas of all compliance units in the given actions.
+ * The point at infinity is returned as (0, 0), as in PA-EVM.
+ *
+ * @throws Error if a unit delta is not on secp256k1
+ */
+export function computeTransactionDelta(actions: readonly Action[]): Point {
+  let sum: Point | null = null;
+
+  actions.forEach((action, actionIndex) => {
+    action.complianceVerifierInputs.forEach((cu, cuIndex) => {
+      const unitDelta = {
+        x: hexToBigInt(cu.instance.unitDeltaX),
+        y: hexToBigInt(cu.instance.unitDeltaY),
+      };
+      if (!isOnCurve(unitDelta)) {
+        throw new Error(
+          `Unit delta of compliance unit ${cuIndex} in action ${actionIndex} is not on secp256k1`
+        );
+      }
+      sum = addPoints(sum, unitDelta);
+    });
+  });
+
+  return sum ?? { x: 0n, y: 0n };
+}
+
+/**
+ * Computes the message digest signed by the delta proof.
+ */
+export function computeDeltaMessageDigest(tags: readonly Hex[]): Hex {
+  return keccak256(concat([...tags]));
+}
+
+/**
+ * Derives the account of a transaction delta, as Delta.toAccount does.
+ */
+export function deltaToAccount(delta: Point): Hex {
+  const hash = keccak256(
+    encodeAbiParameters([{ type: "uint256" }, { type: "uint256" }], [delta.x, delta.y])
+  );
+  return slice(hash, 12);
+}
+
+/**
+ * Verifies a delta proof against the actions' summed unit deltas and the transaction tags.
+ * Signatures are checked like OpenZeppelin's ECDSA.recover: 65 bytes, v of 27 or 28, low s.
+ */
+export async function verifyDeltaProof(
+  actions: readonly Action[],
+  tags: readonly Hex[],
+  deltaProof: Hex
+): Promise<DeltaVerificationResult> {
+  let transactionDelta: Point;
+  try {
+    transactionDelta = computeTransactionDelta(actions);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { verified: false, error: message };
+  }
+
+  if (size(deltaProof) !== 65) {
+    return {
+      verified: false,
+      transactionDelta,
+      error: `Delta proof must be 65 bytes, got ${size(deltaProof)}`,
+    };
+  }
+
+  const s = hexToBigInt(slice(deltaProof, 32, 64));
+  const v = hexToBigInt(slice(deltaProof, 64, 65));
+  if (s > SECP256K1_N / 2n || (v !== 27n && v !== 28n)) {
+    return { verified: false, transactionDelta, error: "Delta proof is not a valid signature" };
+  }
+
+  let signer: Hex;
+  try {
+    signer = await recoverAddress({
+      hash: computeDeltaMessageDigest(tags),
+      signature: deltaProof,
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { verified: false, transactionDelta, error: `Failed to recover signer: ${message}` };
+  }
+
+  const account = deltaToAccount(transactionDelta);
+  if (signer.toLowerCase() !== account.toLowerCase()) {
+    return {
+      verified: false,
+      transactionDelta,
+      error: `Delta proof signer ${signer} does not match transaction delta account ${account}`,
+    };
+  }
+
+  return { verified: true, transactionDelta };
+}
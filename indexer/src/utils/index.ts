@@ -4,3 +4,11 @@
 
 export { BoundedCache } from "./BoundedCache";
 export * from "./abi";
+export * from "./merkle";
+export { IncrementalMerkleTree } from "./IncrementalMerkleTree";
+export * from "./json";
+export * from "./secp256k1";
+export * from "./delta";
+export * from "./proof";
+export * from "./consistency";
+export * from "./compliance";
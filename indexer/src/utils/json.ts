@@ -0,0 +1,21 @@
+/**
+ * Helpers for storing decoded data in Json entity fields.
+ */
+
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * Converts decoded values into plain JSON, turning bigints into decimal strings.
+ */
+export function toJsonValue(value: unknown): JsonValue {
+  const json = JSON.stringify(value, (_key, v: unknown) =>
+    typeof v === "bigint" ? v.toString() : v
+  );
+  return json === undefined ? null : (JSON.parse(json) as JsonValue);
+}
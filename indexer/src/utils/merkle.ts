@@ -0,0 +1,109 @@
+/**
+ * Merkle tree helpers matching PA-EVM's SHA-256 based trees.
+ *
+ * PA-EVM hashes node pairs as sha256(left || right) and pads a tree up to the next
+ * power of two with the empty leaf (see pa-evm/contracts/src/libs/MerkleTree.sol).
+ */
+
+import { concat, sha256, type Hex } from "viem";
+import { MERKLE_EMPTY_LEAF } from "../constants";
+import type { Action } from "../types";
+
+/**
+ * Hashes two sibling nodes into their parent node.
+ */
+export function hashPair(left: Hex, right: Hex): Hex {
+  return sha256(concat([left, right]));
+}
+
+/**
+ * Returns the smallest depth whose capacity (2^depth) holds the given number of leaves.
+ */
+export function computeMinimalTreeDepth(leafCount: number): number {
+  let depth = 0;
+  while (1 << depth < leafCount) {
+    depth++;
+  }
+  return depth;
+}
+
+const emptySubtreeRoots: Hex[] = [MERKLE_EMPTY_LEAF];
+
+/**
+ * Returns the root of a subtree of the given height containing only empty leaves.
+ */
+export function computeEmptySubtreeRoot(height: number): Hex {
+  while (emptySubtreeRoots.length <= height) {
+    const below = emptySubtreeRoots[emptySubtreeRoots.length - 1];
+    emptySubtreeRoots.push(hashPair(below, below));
+  }
+  return emptySubtreeRoots[height];
+}
+
+/**
+ * Computes the root implied by a leaf, its position and its sibling path (bottom-up).
+ */
+export function computeRootFromPath(leaf: Hex, leafIndex: number, path: readonly Hex[]): Hex {
+  let node = leaf;
+  let index = leafIndex;
+  for (const sibling of path) {
+    node = index % 2 === 0 ? hashPair(node, sibling) : hashPair(sibling, node);
+    index = Math.floor(index / 2);
+  }
+  return node;
+}
+
+/**
+ * Computes the root of a Merkle tree of minimal depth over the given leaves.
+ * Missing leaves are padded with the empty leaf.
+ */
+export function computeMerkleRoot(leaves: readonly Hex[]): Hex {
+  const capacity = 1 << computeMinimalTreeDepth(leaves.length);
+
+  let nodes: Hex[] = [];
+  for (let i = 0; i < capacity; i++) {
+    nodes.push(i < leaves.length ? leaves[i] : MERKLE_EMPTY_LEAF);
+  }
+
+  while (nodes.length > 1) {
+    const parents: Hex[] = [];
+    for (let i = 0; i < nodes.length; i += 2) {
+      parents.push(hashPair(nodes[i], nodes[i + 1]));
+    }
+    nodes = parents;
+  }
+
+  return nodes[0];
+}
+
+/**
+ * Returns the action tree leaves in the order PA-EVM builds them:
+ * for every compliance unit, its consumed nullifier followed by its created commitment.
+ */
+export function getActionTreeTags(action: Action): Hex[] {
+  const tags: Hex[] = [];
+  for (const cu of action.complianceVerifierInputs) {
+    tags.push(cu.instance.consumed.nullifier, cu.instance.created.commitment);
+  }
+  return tags;
+}
+
+/**
+ * Recomputes the actionTreeRoot emitted in ActionExecuted for a decoded action.
+ */
+export function computeActionTreeRoot(action: Action): Hex {
+  return computeMerkleRoot(getActionTreeTags(action));
+}
+
+/**
+ * Finds the position of the decoded action whose tree root equals the given root.
+ *
+ * @returns The index in Transaction.actions, or -1 if no action matches
+ */
+export function findActionIndexByTreeRoot(
+  actions: readonly Action[],
+  actionTreeRoot: string
+): number {
+  const target = actionTreeRoot.toLowerCase();
+  return actions.findIndex((action) => computeActionTreeRoot(action).toLowerCase() === target);
+}
@@ -0,0 +1,36 @@
+/**
+ * Proof metadata helpers.
+ *
+ * Compliance, logic and aggregation proofs are RISC Zero seals, which start with the 4-byte
+ * selector of the verifier that accepts them. The delta proof is an ECDSA signature and has
+ * no verifier selector.
+ */
+
+import { sha256, size, slice, type Hex } from "viem";
+
+export type ProofKind = "compliance" | "logic" | "delta" | "aggregation";
+
+export interface ProofMetadata {
+  hash: Hex;
+  kind: ProofKind;
+  byteLength: number;
+  verifierSelector: Hex | undefined;
+}
+
+/**
+ * Returns the content hash, size and verifier selector of a proof,
+ * or null for an empty proof (e.g. per-unit proofs of an aggregated transaction).
+ */
+export function getProofMetadata(kind: ProofKind, proof: Hex | undefined): ProofMetadata | null {
+  if (!proof || proof === "0x") {
+    return null;
+  }
+
+  const byteLength = size(proof);
+  return {
+    hash: sha256(proof),
+    kind,
+    byteLength,
+    verifierSelector: kind !== "delta" && byteLength >= 4 ? slice(proof, 0, 4) : undefined,
+  };
+}
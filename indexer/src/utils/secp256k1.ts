@@ -0,0 +1,82 @@
+/**
+ * Minimal secp256k1 point arithmetic for summing compliance unit deltas.
+ *
+ * Mirrors PA-EVM's EllipticCurveK256 library: points are affine (x, y) pairs and the point at
+ * infinity is represented as null.
+ */
+
+/** Field prime p = 2^256 - 2^32 - 977 */
+export const SECP256K1_P = 0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2fn;
+
+/** Group order n */
+export const SECP256K1_N = 0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141n;
+
+export interface Point {
+  x: bigint;
+  y: bigint;
+}
+
+function mod(value: bigint): bigint {
+  const result = value % SECP256K1_P;
+  return result >= 0n ? result : result + SECP256K1_P;
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  let b = mod(base);
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) {
+      result = (result * b) % SECP256K1_P;
+    }
+    b = (b * b) % SECP256K1_P;
+    e >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Returns the multiplicative inverse modulo p (p is prime, so a^(p-2)).
+ */
+function modInverse(value: bigint): bigint {
+  return modPow(value, SECP256K1_P - 2n);
+}
+
+/**
+ * Checks that a point's coordinates are field elements satisfying y^2 = x^3 + 7.
+ */
+export function isOnCurve(point: Point): boolean {
+  const { x, y } = point;
+  if (x < 0n || x >= SECP256K1_P || y < 0n || y >= SECP256K1_P) {
+    return false;
+  }
+  return mod(y * y) === mod(x * x * x + 7n);
+}
+
+/**
+ * Adds two points, where null is the point at infinity.
+ */
+export function addPoints(a: Point | null, b: Point | null): Point | null {
+  if (a === null) {
+    return b;
+  }
+  if (b === null) {
+    return a;
+  }
+
+  let lambda: bigint;
+  if (a.x === b.x) {
+    // P + (-P) = infinity
+    if (mod(a.y + b.y) === 0n) {
+      return null;
+    }
+    // Point doubling
+    lambda = mod(3n * a.x * a.x * modInverse(2n * a.y));
+  } else {
+    lambda = mod((b.y - a.y) * modInverse(b.x - a.x));
+  }
+
+  const x = mod(lambda * lambda - a.x - b.x);
+  const y = mod(lambda * (a.x - x) - a.y);
+  return { x, y };
+}
@@ -0,0 +1,152 @@
+import { expect } from "chai";
+import { encodeAbiParameters, encodeFunctionData, parseAbi, type Hex } from "viem";
+import {
+  describeCalldata,
+  formatReport,
+  normalizeCalldata,
+  parseArgs,
+} from "../../src/cli/decodeTx";
+import { encodeExecuteCalldata } from "../../src/decoders/ActionDecoder";
+import { DeletionCriterion, type Transaction } from "../../src/types";
+import { RESOURCE_ABI } from "../../src/utils/abi";
+
+const word = (n: number): Hex => `0x${n.toString(16).padStart(64, "0")}`;
+
+const RESOURCE_BLOB = encodeAbiParameters(RESOURCE_ABI, [
+  {
+    logicRef: word(1),
+    labelRef: word(2),
+    valueRef: word(3),
+    nullifierKeyCommitment: word(4),
+    nonce: word(5),
+    randSeed: word(6),
+    quantity: 10n,
+    ephemeral: false,
+  },
+]);
+
+const TRANSACTION: Transaction = {
+  actions: [
+    {
+      logicVerifierInputs: [
+        {
+          tag: word(11),
+          verifyingKey: word(1),
+          appData: {
+            resourcePayload: [{ deletionCriterion: DeletionCriterion.Never, blob: RESOURCE_BLOB }],
+            discoveryPayload: [
+              { deletionCriterion: DeletionCriterion.Immediately, blob: "0x1234" },
+            ],
+            externalPayload: [],
+            applicationPayload: [],
+          },
+          proof: "0x",
+        },
+      ],
+      complianceVerifierInputs: [
+        {
+          proof: `0xbb1c9ef4${"00".repeat(28)}`,
+          instance: {
+            consumed: { nullifier: word(10), logicRef: word(1), commitmentTreeRoot: word(0) },
+            created: { commitment: word(11), logicRef: word(1) },
+            unitDeltaX: word(0),
+            unitDeltaY: word(0),
+          },
+        },
+      ],
+    },
+  ],
+  deltaProof: `0x${"ab".repeat(65)}`,
+  aggregationProof: "0x",
+};
+
+const CALLDATA = encodeExecuteCalldata(TRANSACTION);
+
+describe("decode-tx", () => {
+  describe("describeCalldata", () => {
+    it("should report actions, compliance units, logic inputs, payloads and proofs", () => {
+      const report = describeCalldata(CALLDATA);
+      expect(report.success).to.be.true;
+      if (!report.success) {
+        return;
+      }
+
+      expect(report).to.include({ version: "v1", proofMode: "per_unit" });
+      expect(report.deltaProof?.byteLength).to.equal(65);
+      expect(report.aggregationProof).to.be.null;
+
+      const [action] = report.actions;
+      expect(action.tagCount).to.equal(2);
+      expect(action.complianceUnits[0].instance).to.deep.equal(
+        TRANSACTION.actions[0].complianceVerifierInputs[0].instance
+      );
+      expect(action.complianceUnits[0].proof).to.include({
+        byteLength: 32,
+        verifierSelector: "0xbb1c9ef4",
+      });
+
+      const [resource, discovery] = action.logicInputs[0].payloads;
+      expect(resource).to.include({ kind: "resource", deletionCriterion: "never" });
+      expect(resource.resource).to.include({ labelRef: word(2), quantity: 10n });
+      expect(discovery).to.include({ kind: "discovery", byteLength: 2 });
+      expect(discovery.resource).to.be.undefined;
+    });
+
+    it("should unwrap wrapped execute calls", () => {
+      const abi = parseAbi(["function execute(address dest, uint256 value, bytes func)"]);
+      const input = encodeFunctionData({
+        abi,
+        functionName: "execute",
+        args: ["0x00000000000000000000000000000000000000aa", 0n, CALLDATA],
+      });
+      const report = describeCalldata(input);
+      expect(report.success).to.be.true;
+      expect(report.wrapperPath).to.deep.equal(["SimpleAccount.execute"]);
+    });
+
+    it("should report decoding failures with their code", () => {
+      const report = describeCalldata(CALLDATA.slice(0, 200));
+      expect(report).to.include({ success: false, code: "truncated_data" });
+      expect(formatReport(report)).to.match(/^Decoding failed \(truncated_data at byte \d+\)/);
+    });
+
+    it("should reject unknown versions", () => {
+      expect(() => describeCalldata(CALLDATA, { version: "v0" })).to.throw("Unknown");
+    });
+  });
+
+  describe("formatReport", () => {
+    it("should print the decoded resource fields", () => {
+      const text = formatReport(describeCalldata(CALLDATA));
+      expect(text).to.include("Protocol Adapter v1 execute(), 1 action(s)");
+      expect(text).to.include("resource payload 0 (never, 256 bytes)");
+      expect(text).to.include("quantity: 10");
+    });
+  });
+
+  describe("parseArgs", () => {
+    it("should parse options and the calldata argument", () => {
+      expect(parseArgs(["--json", "--version", "v1", "--to", "0xaa", "0x12"])).to.deep.equal({
+        json: true,
+        help: false,
+        version: "v1",
+        protocolAdapter: "0xaa",
+        calldata: "0x12",
+      });
+      expect(parseArgs(["--file", "tx.hex"])).to.include({ file: "tx.hex", json: false });
+    });
+
+    it("should reject unknown options and missing values", () => {
+      expect(() => parseArgs(["--verbose"])).to.throw("Unknown option");
+      expect(() => parseArgs(["--file"])).to.throw("Missing value");
+      expect(() => parseArgs(["0x01", "0x02"])).to.throw("single calldata");
+    });
+  });
+
+  describe("normalizeCalldata", () => {
+    it("should strip whitespace and add the 0x prefix", () => {
+      expect(normalizeCalldata(" ed3cf91f\n00\n")).to.equal("0xed3cf91f00");
+      expect(() => normalizeCalldata("0xzz")).to.throw("hex");
+    });
+  });
+});
@@ -1,9 +1,66 @@
 import { expect } from "chai";
+import { encodeFunctionData, parseAbi, type Hex } from "viem";
 import {
   decodeExecuteCalldata,
+  encodeExecuteCalldata,
+  findExecuteCall,
+  findExecuteCalls,
   isExecuteCalldata,
   getActionFromCalldata,
 } from "../../src/decoders/ActionDecoder";
+import { DeletionCriterion, type Transaction } from "../../src/types";
+import { createRandom, randomAction, randomTransaction, type Random } from "./generators";
+
+const PROTOCOL_ADAPTER = "0x9ed43c229480659bf6b6607c46d7b96c6d760cbb";
+const OTHER = "0x00000000000000000000000000000000000000aa";
+
+const EXECUTE_CALLDATA = encodeExecuteCalldata({
+  actions: [],
+  deltaProof: "0x01",
+  aggregationProof: "0x",
+});
+
+/**
+ * Number of random cases per property.
+ */
+const RUNS = 50;
+
+/**
+ * Run a property for seeds 1..RUNS, naming the failing seed.
+ */
+function forAllSeeds(property: (random: Random, seed: number) => void): void {
+  for (let seed = 1; seed <= RUNS; seed++) {
+    try {
+      property(createRandom(seed), seed);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Property failed for seed ${seed}: ${message}`);
+    }
+  }
+}
+
+function expectRoundTrip(transaction: Transaction): void {
+  const result = decodeExecuteCalldata(encodeExecuteCalldata(transaction));
+  expect(result.success, result.success ? "" : result.error).to.be.true;
+  if (result.success) {
+    expect(result.transaction).to.deep.equal(transaction);
+    expect(result.version).to.equal("v1");
+  }
+}
+
+const WRAPPER_ABI = parseAbi([
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls)",
+  "function execute(address dest, uint256 value, bytes func)",
+  "function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)",
+  "function handleOps((address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)[] ops, address beneficiary)",
+]);
+
+const aggregate3 = (calls: { target: Hex; callData: Hex }[]): Hex =>
+  encodeFunctionData({
+    abi: WRAPPER_ABI,
+    functionName: "aggregate3",
+    args: [calls.map((call) => ({ ...call, allowFailure: false }))],
+  });
 
 describe("ActionDecoder", () => {
   describe("isExecuteCalldata", () => {
@@ -55,6 +112,31 @@ describe("ActionDecoder", () => {
     });
   });
 
+  describe("decodeExecuteCalldata error codes", () => {
+    it("should classify empty input and unknown selectors", () => {
+      expect(decodeExecuteCalldata("0x")).to.include({ code: "empty_input" });
+      expect(decodeExecuteCalldata("0x12345678")).to.include({
+        code: "unknown_selector",
+        selector: "0x12345678",
+      });
+    });
+
+    it("should classify truncated data with the failing offset", () => {
+      const truncated = EXECUTE_CALLDATA.slice(0, -64);
+      const result = decodeExecuteCalldata(truncated);
+      expect(result).to.include({ code: "truncated_data", selector: "0xed3cf91f" });
+      if (!result.success) {
+        expect(result.offset).to.equal((truncated.length - 2) / 2);
+      }
+    });
+
+    it("should classify offsets pointing outside the data", () => {
+      const badOffset = `0xed3cf91f${"0".repeat(59)}fffff${EXECUTE_CALLDATA.slice(74)}`;
+      const result = decodeExecuteCalldata(badOffset);
+      expect(result).to.include({ code: "bad_offset", offset: 4 + 0xfffff });
+    });
+  });
+
   describe("getActionFromCalldata", () => {
     it("should return null for invalid calldata", () => {
       expect(getActionFromCalldata("", 0)).to.be.null;
@@ -65,5 +147,225 @@ describe("ActionDecoder", () => {
       // Even with valid calldata, negative index should fail
       expect(getActionFromCalldata("0xed3cf91f", -1)).to.be.null;
     });
+
+    it("should return the action at the given index", () => {
+      const random = createRandom(7);
+      const actions = [randomAction(random), randomAction(random)];
+      const input = encodeExecuteCalldata({ actions, deltaProof: "0x", aggregationProof: "0x" });
+      expect(getActionFromCalldata(input, 1)).to.deep.equal(actions[1]);
+      expect(getActionFromCalldata(input, 2)).to.be.null;
+    });
+  });
+
+  describe("encodeExecuteCalldata", () => {
+    it("should encode with the execute selector", () => {
+      expect(EXECUTE_CALLDATA.slice(0, 10)).to.equal("0xed3cf91f");
+      expect(isExecuteCalldata(EXECUTE_CALLDATA)).to.be.true;
+    });
+
+    it("should round-trip random transactions", () => {
+      forAllSeeds((random) => expectRoundTrip(randomTransaction(random)));
+    });
+
+    it("should round-trip empty arrays at every level", () => {
+      const empty = {
+        resourcePayload: [],
+        discoveryPayload: [],
+        externalPayload: [],
+        applicationPayload: [],
+      };
+      expectRoundTrip({ actions: [], deltaProof: "0x", aggregationProof: "0x" });
+      expectRoundTrip({
+        actions: [
+          { logicVerifierInputs: [], complianceVerifierInputs: [] },
+          {
+            logicVerifierInputs: [
+              {
+                tag: `0x${"11".repeat(32)}`,
+                verifyingKey: `0x${"22".repeat(32)}`,
+                appData: empty,
+                proof: "0x",
+              },
+            ],
+            complianceVerifierInputs: [],
+          },
+        ],
+        deltaProof: "0x",
+        aggregationProof: "0x",
+      });
+    });
+
+    it("should round-trip huge blobs", () => {
+      const random = createRandom(1);
+      const action = randomAction(random, { maxItems: 1 });
+      const blob = random.bytes(256 * 1024);
+      action.logicVerifierInputs = [
+        {
+          tag: random.bytes(32),
+          verifyingKey: random.bytes(32),
+          appData: {
+            resourcePayload: [{ deletionCriterion: DeletionCriterion.Never, blob }],
+            discoveryPayload: [],
+            externalPayload: [],
+            applicationPayload: [{ deletionCriterion: DeletionCriterion.Immediately, blob }],
+          },
+          proof: random.bytes(4096),
+        },
+      ];
+      expectRoundTrip({ actions: [action], deltaProof: random.bytes(65), aggregationProof: "0x" });
+    });
+
+    it("should round-trip many actions", () => {
+      const random = createRandom(2);
+      const actions = Array.from({ length: 128 }, () => randomAction(random, { maxItems: 2 }));
+      expectRoundTrip({
+        actions,
+        deltaProof: random.bytes(65),
+        aggregationProof: random.bytes(256),
+      });
+    });
+
+    it("should re-encode decoded calldata to the same bytes", () => {
+      forAllSeeds((random) => {
+        const input = encodeExecuteCalldata(randomTransaction(random));
+        const result = decodeExecuteCalldata(input);
+        expect(result.success && encodeExecuteCalldata(result.transaction)).to.equal(input);
+      });
+    });
+
+    it("should return typed errors instead of throwing for corrupted calldata", () => {
+      forAllSeeds((random) => {
+        const input = encodeExecuteCalldata(randomTransaction(random));
+        const bytes = (input.length - 2) / 2;
+
+        // Truncate after the selector, at an arbitrary byte
+        const truncated = input.slice(0, 2 + 2 * (4 + random.int(bytes - 4)));
+        const truncatedResult = decodeExecuteCalldata(truncated);
+        expect(truncatedResult.success).to.be.false;
+        if (!truncatedResult.success) {
+          expect(truncatedResult.code).to.be.oneOf(["truncated_data", "bad_offset"]);
+        }
+
+        // Overwrite an arbitrary word after the selector
+        const position = 2 + 2 * (4 + 32 * random.int(Math.floor((bytes - 4) / 32)));
+        const mutated = `${input.slice(0, position)}${random.bytes(32).slice(2)}${input.slice(position + 64)}`;
+        const mutatedResult = decodeExecuteCalldata(mutated);
+        if (!mutatedResult.success) {
+          expect(mutatedResult.code).to.be.oneOf([
+            "truncated_data",
+            "bad_offset",
+            "unexpected_shape",
+          ]);
+        }
+      });
+    });
+  });
+
+  describe("findExecuteCall", () => {
+    it("should return direct execute calls with an empty wrapper path", () => {
+      expect(findExecuteCall(EXECUTE_CALLDATA)).to.deep.equal({
+        calldata: EXECUTE_CALLDATA,
+        wrapperPath: [],
+      });
+    });
+
+    it("should unwrap Multicall3 calls to the Protocol Adapter", () => {
+      const input = aggregate3([
+        { target: OTHER, callData: EXECUTE_CALLDATA },
+        { target: PROTOCOL_ADAPTER, callData: EXECUTE_CALLDATA },
+      ]);
+      const result = findExecuteCall(input, { protocolAdapter: PROTOCOL_ADAPTER });
+      expect(result?.wrapperPath).to.deep.equal(["Multicall3.aggregate3[1]"]);
+
+      const decoded = decodeExecuteCalldata(result!.calldata);
+      expect(decoded.success).to.be.true;
+      if (decoded.success) {
+        expect(decoded.transaction.deltaProof).to.equal("0x01");
+      }
+    });
+
+    it("should unwrap Safe transactions to the Protocol Adapter", () => {
+      const input = encodeFunctionData({
+        abi: WRAPPER_ABI,
+        functionName: "execTransaction",
+        args: [PROTOCOL_ADAPTER, 0n, EXECUTE_CALLDATA, 0, 0n, 0n, 0n, OTHER, OTHER, "0x"],
+      });
+
+      expect(findExecuteCall(input, { protocolAdapter: PROTOCOL_ADAPTER })).to.deep.equal({
+        calldata: EXECUTE_CALLDATA,
+        wrapperPath: ["Safe.execTransaction"],
+      });
+      expect(findExecuteCall(input, { protocolAdapter: OTHER })).to.be.null;
+    });
+
+    it("should unwrap ERC-4337 user operations through smart account calls", () => {
+      const accountCall = encodeFunctionData({
+        abi: WRAPPER_ABI,
+        functionName: "execute",
+        args: [PROTOCOL_ADAPTER, 0n, EXECUTE_CALLDATA],
+      });
+      const input = encodeFunctionData({
+        abi: WRAPPER_ABI,
+        functionName: "handleOps",
+        args: [
+          [
+            {
+              sender: OTHER,
+              nonce: 0n,
+              initCode: "0x",
+              callData: accountCall,
+              accountGasLimits: `0x${"00".repeat(32)}`,
+              preVerificationGas: 0n,
+              gasFees: `0x${"00".repeat(32)}`,
+              paymasterAndData: "0x",
+              signature: "0x",
+            },
+          ],
+          OTHER,
+        ],
+      });
+
+      const result = findExecuteCall(input, { protocolAdapter: PROTOCOL_ADAPTER });
+      expect(result?.calldata).to.equal(EXECUTE_CALLDATA);
+      expect(result?.wrapperPath).to.deep.equal([
+        "EntryPoint.handleOps[0]",
+        "SimpleAccount.execute",
+      ]);
+    });
+
+    it("should return null when no execute call targets the Protocol Adapter", () => {
+      const input = aggregate3([{ target: OTHER, callData: EXECUTE_CALLDATA }]);
+      expect(findExecuteCall(input, { protocolAdapter: PROTOCOL_ADAPTER })).to.be.null;
+      expect(findExecuteCall("0xdeadbeef")).to.be.null;
+    });
+  });
+
+  describe("findExecuteCalls", () => {
+    it("should return every execute call to the Protocol Adapter in calldata order", () => {
+      const second = encodeExecuteCalldata({
+        actions: [],
+        deltaProof: "0x02",
+        aggregationProof: "0x",
+      });
+      const input = aggregate3([
+        { target: PROTOCOL_ADAPTER, callData: EXECUTE_CALLDATA },
+        { target: OTHER, callData: EXECUTE_CALLDATA },
+        { target: PROTOCOL_ADAPTER, callData: second },
+      ]);
+
+      expect(findExecuteCalls(input, { protocolAdapter: PROTOCOL_ADAPTER })).to.deep.equal([
+        { calldata: EXECUTE_CALLDATA, wrapperPath: ["Multicall3.aggregate3[0]"] },
+        { calldata: second, wrapperPath: ["Multicall3.aggregate3[2]"] },
+      ]);
+      expect(findExecuteCall(input, { protocolAdapter: PROTOCOL_ADAPTER })?.calldata).to.equal(
+        EXECUTE_CALLDATA
+      );
+    });
+
+    it("should return no calls when none targets the Protocol Adapter", () => {
+      const input = aggregate3([{ target: OTHER, callData: EXECUTE_CALLDATA }]);
+      expect(findExecuteCalls(input, { protocolAdapter: PROTOCOL_ADAPTER })).to.be.empty;
+      expect(findExecuteCalls("0x")).to.be.empty;
+    });
   });
 });
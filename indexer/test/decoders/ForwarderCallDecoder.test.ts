@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import {
+  encodeAbiParameters,
+  encodeErrorResult,
+  encodeFunctionData,
+  getAddress,
+  parseAbi,
+  type Abi,
+} from "viem";
+import {
+  createForwarderAbiRegistry,
+  decodeForwarderCall,
+} from "../../src/decoders/ForwarderCallDecoder";
+import ERC20 from "../../src/abis/ERC20.json";
+
+const RECIPIENT = getAddress("0x00000000000000000000000000000000000000aa");
+
+describe("ForwarderCallDecoder", () => {
+  describe("decodeForwarderCall", () => {
+    it("should decode ERC-20 transfers with named arguments and outputs", () => {
+      const input = encodeFunctionData({
+        abi: ERC20 as Abi,
+        functionName: "transfer",
+        args: [RECIPIENT, 1000n],
+      });
+      const output = encodeAbiParameters([{ type: "bool" }], [true]);
+
+      const result = decodeForwarderCall(input, output);
+      expect(result.status).to.equal("success");
+      expect(result.selector).to.equal("0xa9059cbb");
+      expect(result.abiName).to.equal("ERC20");
+      expect(result.functionName).to.equal("transfer");
+      expect(result.args).to.deep.equal({ to: RECIPIENT, amount: "1000" });
+      expect(result.output).to.deep.equal({ success: true });
+    });
+
+    it("should decode Error(string) revert reasons", () => {
+      const input = encodeFunctionData({
+        abi: ERC20 as Abi,
+        functionName: "approve",
+        args: [RECIPIENT, 1n],
+      });
+      const output = encodeErrorResult({
+        abi: parseAbi(["error Error(string)"]),
+        errorName: "Error",
+        args: ["insufficient allowance"],
+      });
+
+      const result = decodeForwarderCall(input, output);
+      expect(result.status).to.equal("success");
+      expect(result.revertReason).to.equal("insufficient allowance");
+      expect(result.output).to.be.undefined;
+    });
+
+    it("should decode known custom errors", () => {
+      const input = encodeFunctionData({
+        abi: ERC20 as Abi,
+        functionName: "transfer",
+        args: [RECIPIENT, 5n],
+      });
+      const output = encodeErrorResult({
+        abi: ERC20 as Abi,
+        errorName: "ERC20InsufficientBalance",
+        args: [RECIPIENT, 1n, 5n],
+      });
+
+      const result = decodeForwarderCall(input, output);
+      expect(result.revertReason).to.equal(`ERC20InsufficientBalance("${RECIPIENT}", "1", "5")`);
+    });
+
+    it("should mark unknown selectors as raw", () => {
+      const result = decodeForwarderCall("0xdeadbeef00", "0x");
+      expect(result.status).to.equal("raw");
+      expect(result.selector).to.equal("0xdeadbeef");
+      expect(result.error).to.include("Unknown function selector");
+    });
+
+    it("should report malformed arguments", () => {
+      const result = decodeForwarderCall("0xa9059cbb0000", "0x");
+      expect(result.status).to.equal("failed");
+      expect(result.functionName).to.equal("transfer");
+      expect(result.error).to.include("Failed to decode input");
+    });
+
+    it("should treat empty input as pending", () => {
+      expect(decodeForwarderCall("0x", "0x").status).to.equal("pending");
+    });
+  });
+
+  describe("createForwarderAbiRegistry", () => {
+    it("should accept the same function from several ABIs", () => {
+      const registry = createForwarderAbiRegistry([
+        { name: "A", abi: parseAbi(["function transfer(address,uint256) returns (bool)"]) },
+        { name: "B", abi: ERC20 as Abi },
+      ]);
+      expect(registry.getFunction("0xa9059cbb")?.abiName).to.equal("A");
+    });
+
+    it("should reject colliding selectors of different functions", () => {
+      // Both signatures hash to selector 0x42966c68
+      expect(() =>
+        createForwarderAbiRegistry([
+          { name: "A", abi: parseAbi(["function burn(uint256)"]) },
+          { name: "B", abi: parseAbi(["function collate_propagate_storage(bytes16)"]) },
+        ])
+      ).to.throw("collides");
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { expect } from "chai";
+import { hexToBigInt, type Hex } from "viem";
+import {
+  createPayloadDecoderRegistry,
+  PayloadDecoderRegistry,
+  type PayloadDecoder,
+} from "../../src/decoders/PayloadDecoderRegistry";
+
+const LOGIC_REF: Hex = `0x${"ab".repeat(32)}`;
+const TAG: Hex = `0x${"01".repeat(32)}`;
+
+const amountDecoder: PayloadDecoder = {
+  name: "test-amount",
+  version: "1.0.0",
+  logicRef: LOGIC_REF,
+  kinds: ["resource", "application"],
+  decode: ({ blob, kind }) => {
+    if (blob === "0x") {
+      throw new Error("Empty blob");
+    }
+    return { kind, amount: hexToBigInt(blob) };
+  },
+};
+
+describe("PayloadDecoderRegistry", () => {
+  it("should look up decoders by logicRef and kind", () => {
+    const registry = createPayloadDecoderRegistry([amountDecoder]);
+    expect(registry.size).to.equal(2);
+    expect(registry.get(LOGIC_REF.toUpperCase().replace("0X", "0x"), "resource")).to.equal(
+      amountDecoder
+    );
+    expect(registry.get(LOGIC_REF, "discovery")).to.be.undefined;
+  });
+
+  it("should reject a second decoder for the same logicRef and kind", () => {
+    const registry = new PayloadDecoderRegistry();
+    registry.register(amountDecoder);
+    expect(() =>
+      registry.register({ ...amountDecoder, name: "other", kinds: ["resource"] })
+    ).to.throw("already registered");
+  });
+
+  it("should return JSON output with decoder name and version", () => {
+    const registry = createPayloadDecoderRegistry([amountDecoder]);
+    const result = registry.decode({
+      kind: "application",
+      logicRef: LOGIC_REF,
+      tag: TAG,
+      index: 0,
+      blob: "0x0100",
+    });
+    expect(result).to.deep.equal({
+      decoderName: "test-amount",
+      decoderVersion: "1.0.0",
+      data: { kind: "application", amount: "256" },
+    });
+  });
+
+  it("should report decoder errors", () => {
+    const registry = createPayloadDecoderRegistry([amountDecoder]);
+    const result = registry.decode({
+      kind: "resource",
+      logicRef: LOGIC_REF,
+      tag: TAG,
+      index: 0,
+      blob: "0x",
+    });
+    expect(result?.data).to.be.null;
+    expect(result?.error).to.equal("Empty blob");
+  });
+
+  it("should return null when no decoder is registered", () => {
+    const registry = createPayloadDecoderRegistry([]);
+    const result = registry.decode({
+      kind: "resource",
+      logicRef: LOGIC_REF,
+      tag: TAG,
+      index: 0,
+      blob: "0x01",
+    });
+    expect(result).to.be.null;
+  });
+});
@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import { parseAbi } from "viem";
+import { decodeExecuteCalldata } from "../../src/decoders/ActionDecoder";
+import {
+  createProtocolAdapterVersionRegistry,
+  getExecuteSelector,
+  protocolAdapterVersionRegistry,
+  type ProtocolAdapterVersion,
+} from "../../src/decoders/ProtocolAdapterVersionRegistry";
+import { PROTOCOL_ADAPTER_V1 } from "../../src/decoders/versions/v1";
+
+const ADDRESS = "0x9ed43c229480659bf6b6607c46d7b96c6d760cbb";
+
+const v2: ProtocolAdapterVersion = {
+  name: "v2",
+  executeAbi: parseAbi(["function execute(bytes transaction)"]),
+  convertTransaction: () => ({ actions: [], deltaProof: "0x", aggregationProof: "0x" }),
+  encodeTransaction: (transaction) => transaction,
+};
+
+describe("ProtocolAdapterVersionRegistry", () => {
+  it("should look up versions by execute selector", () => {
+    expect(getExecuteSelector(PROTOCOL_ADAPTER_V1)).to.equal("0xed3cf91f");
+    expect(protocolAdapterVersionRegistry.getBySelector("0xED3CF91F")).to.equal(
+      PROTOCOL_ADAPTER_V1
+    );
+  });
+
+  it("should prefer address entries, then the latest start block", () => {
+    const registry = createProtocolAdapterVersionRegistry(
+      [PROTOCOL_ADAPTER_V1, v2],
+      [
+        { chainId: 1, version: "v1" },
+        { chainId: 1, startBlock: 100, version: "v2" },
+        { chainId: 10, address: ADDRESS, version: "v1" },
+        { chainId: 10, startBlock: 50, version: "v2" },
+      ]
+    );
+    expect(registry.resolve(1, ADDRESS, 99)?.name).to.equal("v1");
+    expect(registry.resolve(1, ADDRESS, 100)?.name).to.equal("v2");
+    expect(registry.resolve(10, ADDRESS.toUpperCase(), 60)?.name).to.equal("v1");
+    expect(registry.resolve(10, "0x01", 60)?.name).to.equal("v2");
+    expect(registry.resolve(8453, ADDRESS, 60)).to.be.undefined;
+  });
+
+  it("should reject colliding execute selectors and unknown deployment versions", () => {
+    expect(() =>
+      createProtocolAdapterVersionRegistry([
+        PROTOCOL_ADAPTER_V1,
+        { ...PROTOCOL_ADAPTER_V1, name: "x" },
+      ])
+    ).to.throw("already registered by v1");
+    expect(() =>
+      createProtocolAdapterVersionRegistry([PROTOCOL_ADAPTER_V1], [{ chainId: 1, version: "v9" }])
+    ).to.throw("unknown version v9");
+  });
+
+  it("should report calldata that does not match the pinned version", () => {
+    const result = decodeExecuteCalldata("0xed3cf91f00", v2);
+    expect(result.success).to.be.false;
+    if (!result.success) {
+      expect(result.error).to.include(`expected ${getExecuteSelector(v2)} for v2`);
+    }
+  });
+});
@@ -1,5 +1,21 @@
 import { expect } from "chai";
+import { encodeAbiParameters, type Hex } from "viem";
 import { safeDecodeResourceBlob } from "../../src/decoders/ResourceDecoder";
+import { RESOURCE_ABI } from "../../src/utils/abi";
+import type { Resource } from "../../src/types";
+
+const word = (n: number): Hex => `0x${n.toString(16).padStart(64, "0")}`;
+
+const resource: Resource = {
+  logicRef: word(1),
+  labelRef: word(2),
+  valueRef: word(3),
+  nullifierKeyCommitment: word(4),
+  nonce: word(5),
+  randSeed: word(6),
+  quantity: 1000n,
+  ephemeral: false,
+};
 
 describe("ResourceDecoder", () => {
   describe("safeDecodeResourceBlob", () => {
@@ -46,5 +62,27 @@ describe("ResourceDecoder", () => {
       expect(result.status).to.equal("raw");
       expect(result.error).to.include("eip712 format");
     });
+
+    it("should decode ABI-encoded Resource structs", () => {
+      const blob = encodeAbiParameters(RESOURCE_ABI, [resource]);
+      const result = safeDecodeResourceBlob(blob);
+      expect(result.status).to.equal("success");
+      expect(result.error).to.be.undefined;
+      expect(result.resource).to.deep.equal(resource);
+    });
+
+    it("should keep blobs with trailing data raw", () => {
+      const blob = encodeAbiParameters(RESOURCE_ABI, [resource]) + "00".repeat(32);
+      const result = safeDecodeResourceBlob(blob);
+      expect(result.status).to.equal("raw");
+      expect(result.resource).to.be.null;
+    });
+
+    it("should keep Resource-sized blobs with out-of-range fields raw", () => {
+      // ephemeral word is neither 0 nor 1
+      const blob = encodeAbiParameters(RESOURCE_ABI, [resource]).slice(0, -64) + word(2).slice(2);
+      const result = safeDecodeResourceBlob(blob);
+      expect(result.status).to.equal("raw");
+    });
   });
 });
@@ -0,0 +1,134 @@
+/**
+ * Seeded random generators for Protocol Adapter transaction structures.
+ *
+ * Used by the encode/decode property tests, and to build calldata for fixtures:
+ * encodeExecuteCalldata(randomTransaction(createRandom(seed))).
+ * The same seed always produces the same values, so failures can be reproduced from the seed.
+ */
+
+import { bytesToHex, type Hex } from "viem";
+import {
+  DeletionCriterion,
+  type Action,
+  type AppData,
+  type ComplianceVerifierInput,
+  type ExpirableBlob,
+  type LogicVerifierInput,
+  type Transaction,
+} from "../../src/types";
+
+export interface Random {
+  /** Integer in [0, max) */
+  int(max: number): number;
+  /** Random bytes of the given length */
+  bytes(length: number): Hex;
+}
+
+/**
+ * Create a deterministic random source (mulberry32).
+ */
+export function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+
+  const next = (): number => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    int: (max) => Math.floor(next() * max),
+    bytes: (length) => bytesToHex(Uint8Array.from({ length }, () => Math.floor(next() * 256))),
+  };
+}
+
+export interface GeneratorOptions {
+  /** Maximum number of actions, units, inputs and blobs per array (default 3) */
+  maxItems?: number;
+  /** Maximum blob and proof size in bytes (default 96) */
+  maxBytes?: number;
+}
+
+const DEFAULT_MAX_ITEMS = 3;
+const DEFAULT_MAX_BYTES = 96;
+
+function items<T>(random: Random, options: GeneratorOptions, generate: () => T): T[] {
+  const count = random.int((options.maxItems ?? DEFAULT_MAX_ITEMS) + 1);
+  return Array.from({ length: count }, generate);
+}
+
+function bytes(random: Random, options: GeneratorOptions): Hex {
+  return random.bytes(random.int((options.maxBytes ?? DEFAULT_MAX_BYTES) + 1));
+}
+
+export function randomExpirableBlob(random: Random, options: GeneratorOptions = {}): ExpirableBlob {
+  return {
+    deletionCriterion:
+      random.int(2) === 0 ? DeletionCriterion.Immediately : DeletionCriterion.Never,
+    blob: bytes(random, options),
+  };
+}
+
+export function randomAppData(random: Random, options: GeneratorOptions = {}): AppData {
+  const blobs = () => items(random, options, () => randomExpirableBlob(random, options));
+  return {
+    resourcePayload: blobs(),
+    discoveryPayload: blobs(),
+    externalPayload: blobs(),
+    applicationPayload: blobs(),
+  };
+}
+
+export function randomLogicVerifierInput(
+  random: Random,
+  options: GeneratorOptions = {}
+): LogicVerifierInput {
+  return {
+    tag: random.bytes(32),
+    verifyingKey: random.bytes(32),
+    appData: randomAppData(random, options),
+    proof: bytes(random, options),
+  };
+}
+
+export function randomComplianceVerifierInput(
+  random: Random,
+  options: GeneratorOptions = {}
+): ComplianceVerifierInput {
+  return {
+    proof: bytes(random, options),
+    instance: {
+      consumed: {
+        nullifier: random.bytes(32),
+        logicRef: random.bytes(32),
+        commitmentTreeRoot: random.bytes(32),
+      },
+      created: { commitment: random.bytes(32), logicRef: random.bytes(32) },
+      unitDeltaX: random.bytes(32),
+      unitDeltaY: random.bytes(32),
+    },
+  };
+}
+
+/**
+ * A random action. Tags, deltas and proofs are arbitrary bytes, so the action is well-formed
+ * calldata but not a valid Anoma action.
+ */
+export function randomAction(random: Random, options: GeneratorOptions = {}): Action {
+  return {
+    logicVerifierInputs: items(random, options, () => randomLogicVerifierInput(random, options)),
+    complianceVerifierInputs: items(random, options, () =>
+      randomComplianceVerifierInput(random, options)
+    ),
+  };
+}
+
+export function randomTransaction(random: Random, options: GeneratorOptions = {}): Transaction {
+  return {
+    actions: items(random, options, () => randomAction(random, options)),
+    deltaProof: bytes(random, options),
+    aggregationProof: bytes(random, options),
+  };
+}
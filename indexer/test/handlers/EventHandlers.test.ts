@@ -0,0 +1,697 @@
+import { expect } from "chai";
+import { encodeFunctionData, parseAbi, type Hex } from "viem";
+import { encodeExecuteCalldata } from "../../src/decoders/ActionDecoder";
+import type { Action, AppData } from "../../src/types";
+import { computeActionTreeRoot, computeRootFromPath } from "../../src/utils/merkle";
+import {
+  expectMatchesGolden,
+  loadFixture,
+  replayFixture,
+  snapshotEntities,
+  type Fixture,
+  type FixtureEvent,
+  type FixtureTransaction,
+} from "./harness";
+
+/**
+ * Returns a copy of the fixture with the events of the given transaction replaced.
+ */
+function withEvents(
+  fixture: Fixture,
+  txIndex: number,
+  map: (events: FixtureEvent[]) => FixtureEvent[]
+): Fixture {
+  return {
+    ...fixture,
+    transactions: fixture.transactions.map((tx, i) =>
+      i === txIndex ? { ...tx, events: map(tx.events) } : tx
+    ),
+  };
+}
+
+/**
+ * Returns a copy of the fixture with every transaction's events reordered,
+ * keeping each event's original log index.
+ */
+function reordered(fixture: Fixture, order: (events: FixtureEvent[]) => FixtureEvent[]): Fixture {
+  return {
+    ...fixture,
+    transactions: fixture.transactions.map((tx) => ({
+      ...tx,
+      events: order(tx.events.map((event, logIndex) => ({ ...event, logIndex }))),
+    })),
+  };
+}
+
+const word = (n: number): Hex => `0x${n.toString(16).padStart(64, "0")}`;
+
+const EMPTY_APP_DATA: AppData = {
+  resourcePayload: [],
+  discoveryPayload: [],
+  externalPayload: [],
+  applicationPayload: [],
+};
+
+/**
+ * An action with one compliance unit consuming a resource proven against the given root.
+ */
+function spendAction(nullifier: Hex, commitment: Hex, commitmentTreeRoot: Hex): Action {
+  const logicRef = word(0x1001);
+  return {
+    logicVerifierInputs: [nullifier, commitment].map((tag) => ({
+      tag,
+      verifyingKey: logicRef,
+      appData: EMPTY_APP_DATA,
+      proof: "0x" as Hex,
+    })),
+    complianceVerifierInputs: [
+      {
+        proof: "0x",
+        instance: {
+          consumed: { nullifier, logicRef, commitmentTreeRoot },
+          created: { commitment, logicRef },
+          unitDeltaX: word(0),
+          unitDeltaY: word(0),
+        },
+      },
+    ],
+  };
+}
+
+describe("EventHandlers", () => {
+  describe("basic fixture", () => {
+    const fixture = loadFixture("basic");
+    const [, executed, truncated] = fixture.transactions;
+
+    it("should index a decoded transaction with verified roots and delta proof", async () => {
+      const db = await replayFixture(fixture);
+      const txId = `${fixture.chainId}_${executed.hash}`;
+      const tx = db.entities.Transaction.get(txId);
+
+      expect(tx?.protocolAdapterVersion_id).to.equal("v1");
+      expect(tx?.deltaVerified).to.equal(true);
+      expect(tx?.proofMode).to.equal("aggregated");
+      expect(
+        db.entities.Resource.getAll().filter((resource) => resource.transaction_id === txId)
+      ).to.have.length(2);
+      expect(db.entities.Action.getAll()[0]).to.include({
+        index: 0,
+        actionTreeRootMismatch: false,
+      });
+      expect(
+        db.entities.CommitmentTreeRoot.getAll().map((root) => root.verificationStatus)
+      ).to.have.members(["verified", "verified"]);
+    });
+
+    it("should record a decoding failure for truncated calldata", async () => {
+      const db = await replayFixture(fixture);
+      const failure = db.entities.DecodingFailure.get(`${fixture.chainId}_${truncated.hash}`);
+      expect(failure?.code).to.equal("truncated_data");
+    });
+
+    it("should record consistency issues when the events disagree with the calldata", async () => {
+      const other = `0x${"ee".repeat(32)}`;
+      const inconsistent = withEvents(fixture, 1, (events) =>
+        events.map((event) =>
+          event.name === "TransactionExecuted"
+            ? {
+                name: event.name,
+                params: {
+                  tags: [...event.params.tags, other],
+                  logicRefs: [event.params.logicRefs[0], other, other],
+                },
+              }
+            : event
+        )
+      );
+
+      const db = await replayFixture(inconsistent);
+      const txId = `${fixture.chainId}_${executed.hash}`;
+      const issues = db.entities.ConsistencyIssue.getAll().filter(
+        (issue) => issue.transaction_id === txId
+      );
+      expect(issues.map((issue) => [issue.check, issue.index])).to.have.deep.members([
+        ["odd_tag_count", undefined],
+        ["tag_mismatch", 2],
+        ["logic_ref_mismatch", 1],
+        ["action_tag_count_mismatch", undefined],
+      ]);
+      expect(issues.find((issue) => issue.check === "action_tag_count_mismatch")).to.include({
+        expected: "3",
+        actual: "2",
+      });
+
+      // The delta proof is not checked against tags no decoded call has
+      const tx = db.entities.Transaction.get(txId);
+      expect(tx?.deltaVerified).to.be.undefined;
+      expect(tx?.deltaError).to.be.undefined;
+    });
+
+    it("should clear the tag count issue when ActionExecuted is processed last", async () => {
+      const late = withEvents(fixture, 1, (events) => [
+        ...events.filter((event) => event.name !== "ActionExecuted"),
+        ...events.filter((event) => event.name === "ActionExecuted"),
+      ]);
+      const db = await replayFixture(late);
+      expect(db.entities.ConsistencyIssue.getAll()).to.be.empty;
+    });
+
+    it("should link compliance units to the commitment tree root they are proven against", async () => {
+      const rootAdded = executed.events.find((event) => event.name === "CommitmentTreeRootAdded");
+      const root = rootAdded?.name === "CommitmentTreeRootAdded" ? rootAdded.params.root : "";
+      const actions = [
+        spendAction(word(0xa3), word(0xc3), root as Hex),
+        spendAction(word(0xa4), word(0xc4), word(0xdead)),
+      ];
+      const spend: Fixture = {
+        ...fixture,
+        transactions: [
+          ...fixture.transactions.slice(0, 2),
+          {
+            hash: word(0x7a03),
+            blockNumber: executed.blockNumber + 30,
+            timestamp: executed.timestamp + 360,
+            input: encodeExecuteCalldata({ actions, deltaProof: "0x", aggregationProof: "0x" }),
+            events: [
+              ...actions.map(
+                (action): FixtureEvent => ({
+                  name: "ActionExecuted",
+                  params: { actionTreeRoot: computeActionTreeRoot(action), actionTagCount: "2" },
+                })
+              ),
+              {
+                name: "TransactionExecuted",
+                params: {
+                  tags: [word(0xa3), word(0xc3), word(0xa4), word(0xc4)],
+                  logicRefs: Array<string>(4).fill(word(0x1001)),
+                },
+              },
+            ],
+          },
+        ],
+      };
+
+      const db = await replayFixture(spend);
+      const rootEntity = db.entities.CommitmentTreeRoot.getAll().find((r) => r.root === root);
+      const units = db.entities.ComplianceUnit.getAll();
+      const unitFor = (nullifier: Hex) =>
+        units.find((unit) => unit.consumedNullifier === nullifier);
+
+      expect(unitFor(word(0xa3))).to.include({
+        commitmentTreeRoot_id: rootEntity?.id,
+        commitmentTreeRootIndex: 0,
+        commitmentTreeRootAge: 30,
+        unknownCommitmentTreeRoot: false,
+      });
+      expect(unitFor(word(0xa4))).to.include({
+        commitmentTreeRoot_id: undefined,
+        unknownCommitmentTreeRoot: true,
+      });
+    });
+
+    it("should keep the first occurrence of a tag and record collisions", async () => {
+      const repeat: Fixture = {
+        ...fixture,
+        transactions: [
+          ...fixture.transactions,
+          {
+            hash: word(0x7a03),
+            blockNumber: truncated.blockNumber + 10,
+            timestamp: truncated.timestamp + 120,
+            input: "0x",
+            events: [
+              {
+                name: "TransactionExecuted",
+                params: {
+                  tags: [word(0xa1), word(0xc1), word(0xc1), word(0xc5)],
+                  logicRefs: Array<string>(4).fill(word(0x1001)),
+                },
+              },
+            ],
+          },
+        ],
+      };
+
+      const db = await replayFixture(repeat);
+      const firstTxId = `${fixture.chainId}_${executed.hash}`;
+      const txId = `${fixture.chainId}_${word(0x7a03)}`;
+
+      expect(db.entities.Nullifier.get(`${fixture.chainId}_${word(0xa1)}`)).to.include({
+        transaction_id: firstTxId,
+        index: 0,
+        occurrenceCount: 2,
+      });
+      expect(db.entities.Commitment.get(`${fixture.chainId}_${word(0xc1)}`)).to.include({
+        transaction_id: firstTxId,
+        leafIndex: 0,
+        occurrenceCount: 2,
+      });
+      expect(
+        db.entities.TagCollision.getAll().map((collision) => [
+          collision.kind,
+          collision.tag,
+          collision.index,
+          collision.firstIndex,
+          collision.transaction_id,
+          collision.firstTransaction_id,
+        ])
+      ).to.have.deep.members([
+        ["repeated_nullifier", word(0xa1), 0, 0, txId, firstTxId],
+        ["repeated_commitment", word(0xc1), 1, 1, txId, firstTxId],
+        ["nullifier_commitment", word(0xc1), 2, 1, txId, firstTxId],
+      ]);
+    });
+
+    it("should aggregate tags and logicRefs across chains", async () => {
+      const base = 8453;
+      const db = await replayFixture({ ...fixture, chainId: base }, await replayFixture(fixture));
+      const tag = db.entities.Tag.get(word(0xa1));
+
+      expect(tag).to.include({ appearanceCount: 2, nullifierCount: 2, commitmentCount: 0 });
+      expect(tag?.chainIds).to.deep.equal([base, fixture.chainId]);
+      expect(
+        db.entities.TagAppearance.getAll()
+          .filter((appearance) => appearance.tag_id === word(0xa1))
+          .map((appearance) => [appearance.chainId, appearance.transaction_id])
+      ).to.have.deep.members([
+        [fixture.chainId, `${fixture.chainId}_${executed.hash}`],
+        [base, `${base}_${executed.hash}`],
+      ]);
+
+      const logicRef = db.entities.LogicRef.get(word(0x1001));
+      expect(logicRef?.chainIds).to.deep.equal([base, fixture.chainId]);
+      expect(logicRef?.transactionCount).to.equal(4);
+      expect(
+        db.entities.Application.getAll()
+          .filter((application) => application.globalLogicRef_id === word(0x1001))
+          .map((application) => application.chainId)
+      ).to.have.members([base, fixture.chainId]);
+    });
+
+    it("should share proofs across chains and link each occurrence", async () => {
+      const base = 8453;
+      const db = await replayFixture({ ...fixture, chainId: base }, await replayFixture(fixture));
+      const transactions = [fixture.chainId, base].map((chainId) =>
+        db.entities.Transaction.get(`${chainId}_${executed.hash}`)
+      );
+      const proofId = transactions[0]?.deltaProofMetadata_id ?? "";
+
+      expect(transactions[1]?.deltaProofMetadata_id).to.equal(proofId);
+      expect(db.entities.Proof.get(proofId)).to.deep.include({ kind: "delta", occurrenceCount: 2 });
+      expect(db.entities.Proof.get(proofId)).to.not.have.property("chainId");
+    });
+
+    it("should match the golden snapshot", async () => {
+      expectMatchesGolden("basic", snapshotEntities(await replayFixture(fixture)));
+    });
+  });
+
+  describe("multi-action fixture", () => {
+    const fixture = loadFixture("multi-action");
+    const [first, second] = fixture.transactions;
+    const txId = `${fixture.chainId}_${first.hash}`;
+    const actionIds = first.events.flatMap((event) =>
+      event.name === "ActionExecuted"
+        ? [`${txId}_${event.params.actionTreeRoot.toLowerCase()}`]
+        : []
+    );
+    const resourceId = (n: number) => `${fixture.chainId}_${word(n)}_resource`;
+    const actionRoot = (n: number) => actionIds[n].slice(txId.length + 1);
+    const MULTICALL = "0x00000000000000000000000000000000000000ca";
+    const aggregate3 = (calls: FixtureTransaction[]): Hex =>
+      encodeFunctionData({
+        abi: parseAbi([
+          "function aggregate3((address target, bool allowFailure, bytes callData)[] calls)",
+        ]),
+        functionName: "aggregate3",
+        args: [
+          calls.map((tx) => ({
+            target: fixture.protocolAdapter as Hex,
+            allowFailure: false,
+            callData: tx.input as Hex,
+          })),
+        ],
+      });
+
+    it("should link resources to their compliance units and logic inputs", async () => {
+      const db = await replayFixture(fixture);
+      const [action0, action1] = actionIds;
+      // tag => [action, compliance unit index, logic input index]
+      const expected: [number, string, number, number][] = [
+        [0xb1, action0, 0, 0],
+        [0xd1, action0, 0, 1],
+        [0xb2, action0, 1, 2],
+        [0xd2, action0, 1, 3],
+        [0xb3, action1, 0, 0],
+        [0xd3, action1, 0, 1],
+      ];
+
+      for (const [tag, actionId, cuIndex, liIndex] of expected) {
+        const complianceUnitId = `${actionId}_compliance_${cuIndex}`;
+        const logicInputId = `${actionId}_logic_${liIndex}`;
+        expect(db.entities.Resource.get(resourceId(tag)), word(tag)).to.include({
+          complianceUnit_id: complianceUnitId,
+          logicInput_id: logicInputId,
+        });
+        expect(db.entities.ComplianceUnit.get(complianceUnitId)?.action_id).to.equal(actionId);
+        expect(db.entities.LogicInput.get(logicInputId)).to.include({
+          action_id: actionId,
+          resource_id: resourceId(tag),
+        });
+      }
+      expect(db.entities.ComplianceUnit.get(`${action0}_compliance_1`)).to.include({
+        consumedResource_id: resourceId(0xb2),
+        createdResource_id: resourceId(0xd2),
+      });
+    });
+
+    it("should number commitments and roots across transactions on the same chain", async () => {
+      const db = await replayFixture(fixture);
+      const roots = [first, second].map((tx) => {
+        const added = tx.events.find((event) => event.name === "CommitmentTreeRootAdded");
+        return added?.name === "CommitmentTreeRootAdded" ? added.params.root : "";
+      });
+
+      const commitments: [number, number, string][] = [
+        [0xd1, 0, roots[0]],
+        [0xd2, 1, roots[0]],
+        [0xd3, 2, roots[0]],
+        [0xd4, 3, roots[1]],
+      ];
+      for (const [tag, leafIndex, root] of commitments) {
+        const resource = db.entities.Resource.get(resourceId(tag));
+        expect(resource, word(tag)).to.include({ leafIndex, merklePathRoot: root });
+        expect(computeRootFromPath(word(tag), leafIndex, resource?.merklePath as Hex[])).to.equal(
+          root
+        );
+      }
+      expect(db.entities.Resource.get(resourceId(0xb4))?.leafIndex).to.equal(undefined);
+
+      expect(
+        db.entities.CommitmentTreeRoot.getAll()
+          .sort((a, b) => a.index - b.index)
+          .map((root) => [root.root, root.index, root.leafCount, root.verificationStatus])
+      ).to.deep.equal([
+        [roots[0], 0, 3, "verified"],
+        [roots[1], 1, 4, "verified"],
+      ]);
+      expect(db.entities.CommitmentTree.get(`${fixture.chainId}`)).to.include({
+        rootCount: 2,
+        leafCount: 4,
+      });
+    });
+
+    it("should flag payload blobs that differ from or are missing in the calldata", async () => {
+      const missing = word(0xee);
+      const altered = withEvents(fixture, 0, (events) => [
+        ...events.map(
+          (event): FixtureEvent =>
+            (event.name === "ResourcePayload" || event.name === "DiscoveryPayload") &&
+            event.params.tag === word(0xd1) &&
+            event.params.index === (event.name === "ResourcePayload" ? "0" : "1")
+              ? { ...event, params: { ...event.params, blob: "0xbad0" } }
+              : event
+        ),
+        { name: "ResourcePayload", params: { tag: missing, index: "0", blob: "0x01" } },
+        { name: "DiscoveryPayload", params: { tag: word(0xd1), index: "2", blob: "0x02" } },
+      ]);
+
+      const db = await replayFixture(altered);
+      const payloads = db.entities.Payload.getAll();
+      const payload = (tag: string, index: number) =>
+        payloads.find((p) => p.tag === tag && p.index === index);
+
+      // The calldata blob exists but its bytes differ: the deletion criterion is still known
+      expect(db.entities.Resource.get(resourceId(0xd1))).to.include({
+        blobMismatch: true,
+        blobDeletionCriterion: "never",
+      });
+      // Matching blobs keep their criterion
+      expect(db.entities.Resource.get(resourceId(0xd3))).to.include({
+        blobMismatch: false,
+        blobDeletionCriterion: "immediately",
+      });
+      expect(payload(word(0xd1), 1)).to.include({
+        blobMismatch: true,
+        deletionCriterion: "immediately",
+      });
+      expect(payload(word(0xd1), 0)).to.include({
+        blobMismatch: false,
+        deletionCriterion: "immediately",
+      });
+      // No calldata blob for the tag or index
+      expect(db.entities.Resource.get(`${fixture.chainId}_${missing}_resource`)).to.include({
+        blobMismatch: true,
+        blobDeletionCriterion: undefined,
+      });
+      expect(payload(word(0xd1), 2)).to.include({
+        blobMismatch: true,
+        deletionCriterion: undefined,
+      });
+    });
+
+    it("should count indexed entities per chain", async () => {
+      const other = 8453;
+      const db = await replayFixture(
+        { ...loadFixture("basic"), chainId: other },
+        await replayFixture(fixture)
+      );
+
+      // Two DiscoveryPayloads for the same tag are both counted
+      expect(db.entities.ChainStats.get(`${fixture.chainId}`)).to.include({
+        transactionCount: 2,
+        actionCount: 3,
+        complianceUnitCount: 4,
+        logicInputCount: 8,
+        consumedResourceCount: 4,
+        createdResourceCount: 4,
+        resourcePayloadCount: 3,
+        discoveryPayloadCount: 2,
+        externalPayloadCount: 1,
+        applicationPayloadCount: 1,
+        forwarderCallCount: 0,
+        commitmentTreeRootCount: 2,
+        totalGasUsed: 900000n,
+        latestBlock: second.blockNumber,
+      });
+      expect(db.entities.ChainStats.get(`${other}`)).to.include({
+        transactionCount: 2,
+        actionCount: 2,
+        discoveryPayloadCount: 1,
+        forwarderCallCount: 1,
+        latestBlock: 4000,
+      });
+    });
+
+    it("should aggregate resources, payloads and transactions per application", async () => {
+      const db = await replayFixture(fixture);
+      const application = (logicRef: string) =>
+        db.entities.Application.get(`${fixture.chainId}_${logicRef}`);
+
+      // APP_A: b1, b2, b4 consumed and d1, d4 created in both transactions
+      expect(application(word(0x1001))).to.include({
+        firstSeenBlock: first.blockNumber,
+        lastSeenBlock: second.blockNumber,
+        transactionCount: 2,
+        consumedResourceCount: 3,
+        createdResourceCount: 2,
+        resourcePayloadCount: 2,
+        discoveryPayloadCount: 2,
+        externalPayloadCount: 1,
+        applicationPayloadCount: 1,
+      });
+      // APP_B: d2 created by an APP_A unit, b3 and d3 in the second action of the first transaction
+      expect(application(word(0x2002))).to.include({
+        firstSeenBlock: first.blockNumber,
+        lastSeenBlock: first.blockNumber,
+        transactionCount: 1,
+        consumedResourceCount: 1,
+        createdResourceCount: 2,
+        resourcePayloadCount: 1,
+        discoveryPayloadCount: 0,
+        externalPayloadCount: 0,
+        applicationPayloadCount: 0,
+      });
+    });
+
+    it("should link applications before TransactionExecuted", async () => {
+      const firstAction = first.events.findIndex((event) => event.name === "ActionExecuted");
+      const db = await replayFixture({
+        ...fixture,
+        transactions: [{ ...first, events: first.events.slice(0, firstAction + 1) }],
+      });
+
+      expect(db.entities.Resource.get(resourceId(0xd1))).to.include({
+        logicRef: word(0x1001),
+        application_id: `${fixture.chainId}_${word(0x1001)}`,
+      });
+      const logicInputs = db.entities.LogicInput.getAll();
+      expect(logicInputs).to.have.length(4);
+      for (const logicInput of logicInputs) {
+        expect(db.entities.Application.get(logicInput.application_id ?? ""), logicInput.id).to
+          .exist;
+      }
+    });
+
+    it("should index each execute call of a batch as its own transaction", async () => {
+      // Wrapping the calls makes a different EVM transaction
+      const batch = {
+        ...first,
+        hash: word(0x7bca),
+        to: MULTICALL,
+        input: aggregate3([first, second]),
+        events: [...first.events, ...second.events],
+      };
+      const evmTxId = `${fixture.chainId}_${batch.hash}`;
+      const db = await replayFixture({ ...fixture, transactions: [batch] });
+
+      expect(db.entities.EVMTransaction.get(evmTxId)).to.deep.include({
+        wrapperPath: ["Multicall3.aggregate3[0]"],
+        executeCallCount: 2,
+        actionCounts: [2, 1],
+        actionTagCounts: [6, 2],
+      });
+      expect(
+        db.entities.Transaction.getAll().map((tx) => [tx.id, tx.executeCallIndex, tx.tags.length])
+      ).to.deep.equal([
+        [`${evmTxId}_0`, 0, 6],
+        [`${evmTxId}_1`, 1, 2],
+      ]);
+      expect(db.entities.Action.get(`${evmTxId}_0_${actionRoot(1)}`)).to.include({
+        index: 1,
+        transaction_id: `${evmTxId}_0`,
+      });
+      expect(db.entities.Action.getAll().map((action) => action.transaction_id)).to.deep.equal([
+        `${evmTxId}_0`,
+        `${evmTxId}_0`,
+        `${evmTxId}_1`,
+      ]);
+      expect(db.entities.Resource.get(resourceId(0xd1))?.transaction_id).to.equal(`${evmTxId}_0`);
+      expect(db.entities.Resource.get(resourceId(0xd4))?.transaction_id).to.equal(`${evmTxId}_1`);
+      // The action tags of each call add up to the tags of its transaction
+      expect(db.entities.ConsistencyIssue.getAll().map((issue) => issue.id)).to.deep.equal([
+        `${evmTxId}_0_multiple_execute_calls`,
+        `${evmTxId}_1_multiple_execute_calls`,
+      ]);
+    });
+
+    it("should key a transaction by the execute call matching its events", async () => {
+      const wrapped = {
+        ...first,
+        hash: word(0x7bcc),
+        to: MULTICALL,
+        input: aggregate3([second, first]),
+      };
+      const wrappedTxId = `${fixture.chainId}_${wrapped.hash}_1`;
+      const db = await replayFixture({ ...fixture, transactions: [wrapped] });
+
+      expect(db.entities.Transaction.get(wrappedTxId)?.executeCallIndex).to.equal(1);
+      expect(db.entities.Action.get(`${wrappedTxId}_${actionRoot(1)}`)).to.include({
+        index: 1,
+        actionTreeRootMismatch: false,
+      });
+      expect(db.entities.Resource.get(resourceId(0xd1))).to.include({
+        transaction_id: wrappedTxId,
+        blobMismatch: false,
+      });
+      expect(
+        db.entities.ConsistencyIssue.getAll().map((issue) => [issue.check, issue.actual])
+      ).to.deep.equal([["multiple_execute_calls", "2"]]);
+    });
+
+    it("should decode the same transaction separately on each chain", async () => {
+      const wrapped = { ...first, hash: word(0x7bcb), to: MULTICALL, input: aggregate3([first]) };
+      const firstAction = first.events.findIndex((event) => event.name === "ActionExecuted");
+      const other = 8453;
+
+      // Without TransactionExecuted the decoded calldata stays cached on the first chain
+      let db = await replayFixture({
+        ...fixture,
+        transactions: [{ ...wrapped, events: wrapped.events.slice(0, firstAction + 1) }],
+      });
+      // The wrapped call targets another Protocol Adapter than the one emitting on this chain
+      db = await replayFixture(
+        {
+          ...fixture,
+          chainId: other,
+          protocolAdapter: "0x00000000000000000000000000000000000000bb",
+          transactions: [wrapped],
+        },
+        db
+      );
+
+      expect(
+        db.entities.Action.get(`${fixture.chainId}_${wrapped.hash}_${actionRoot(0)}`)
+      ).to.include({ index: 0 });
+      expect(db.entities.DecodingFailure.get(`${other}_${wrapped.hash}`)?.code).to.equal(
+        "unknown_selector"
+      );
+    });
+
+    it("should produce the same entities regardless of event order within a transaction", async () => {
+      const inOrder = snapshotEntities(await replayFixture(fixture));
+      const orders: Record<string, (events: FixtureEvent[]) => FixtureEvent[]> = {
+        reversed: (events) => [...events].reverse(),
+        "TransactionExecuted first": (events) => [
+          ...events.filter((event) => event.name === "TransactionExecuted"),
+          ...events.filter((event) => event.name !== "TransactionExecuted"),
+        ],
+      };
+
+      for (const [name, order] of Object.entries(orders)) {
+        const snapshot = snapshotEntities(await replayFixture(reordered(fixture, order)));
+        expect(snapshot, name).to.deep.equal(inOrder);
+      }
+    });
+
+    it("should match the golden snapshot", async () => {
+      expectMatchesGolden("multi-action", snapshotEntities(await replayFixture(fixture)));
+    });
+  });
+
+  describe("pause fixture", () => {
+    const fixture = loadFixture("pause");
+    const [, paused, whilePaused, unpaused, afterUnpause] = fixture.transactions;
+    const stateId = `${fixture.chainId}_${fixture.protocolAdapter}`;
+    const owner = "0x00000000000000000000000000000000000000aa";
+
+    it("should track the pause state and snapshot it on transactions", async () => {
+      const duringPause = await replayFixture({
+        ...fixture,
+        transactions: fixture.transactions.slice(0, 3),
+      });
+      expect(duringPause.entities.ProtocolAdapterState.get(stateId)).to.include({
+        paused: true,
+        owner,
+        lastChangeBlock: paused.blockNumber,
+      });
+
+      const db = await replayFixture(fixture);
+      expect(db.entities.ProtocolAdapterState.get(stateId)).to.include({
+        paused: false,
+        owner,
+        lastChangeBlock: unpaused.blockNumber,
+        lastChangeTxHash: unpaused.hash,
+      });
+      expect(
+        db.entities.PauseEvent.getAll()
+          .sort((a, b) => a.blockNumber - b.blockNumber)
+          .map((event) => [event.paused, event.account, event.txHash, event.adapterState_id])
+      ).to.deep.equal([
+        [true, owner, paused.hash, stateId],
+        [false, owner, unpaused.hash, stateId],
+      ]);
+
+      const transaction = (hash: string) =>
+        db.entities.Transaction.get(`${fixture.chainId}_${hash}`);
+      expect(transaction(whilePaused.hash)).to.include({
+        adapterPaused: true,
+        adapterOwner: owner,
+      });
+      expect(transaction(afterUnpause.hash)).to.include({
+        adapterPaused: false,
+        adapterOwner: owner,
+      });
+    });
+  });
+});
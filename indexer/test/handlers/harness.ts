@@ -0,0 +1,246 @@
+/**
+ * Offline handler test harness.
+ *
+ * Fixtures describe EVM transactions with their calldata and the ordered Protocol Adapter
+ * events they emitted. replayFixture() feeds them through the real handlers in
+ * src/EventHandlers.ts, backed by Envio's in-memory MockDb as the handlerContext store, and
+ * snapshotEntities() turns the resulting store into plain JSON for assertions and golden-file
+ * comparisons.
+ *
+ * Fixtures live in ./fixtures, golden snapshots in ./golden. Run the tests with
+ * UPDATE_GOLDEN=1 (pnpm test:update-golden) to rewrite the golden snapshots after an
+ * intended behavior change.
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { expect } from "chai";
+import { TestHelpers } from "generated";
+import { toJsonValue, type JsonValue } from "../../src/utils/json";
+// Registers the handlers
+import "../../src/EventHandlers";
+
+const { MockDb, ProtocolAdapter } = TestHelpers;
+
+type MockDb = ReturnType<typeof MockDb.createMockDb>;
+
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+const GOLDEN_DIR = path.join(__dirname, "golden");
+
+// ============================================
+// Fixture Types
+// ============================================
+// uint256 event parameters and gas values are decimal strings, since JSON has no bigints.
+
+type PayloadParams = { tag: string; index: string; blob: string };
+
+export type FixtureEvent = (
+  | { name: "TransactionExecuted"; params: { tags: string[]; logicRefs: string[] } }
+  | { name: "ActionExecuted"; params: { actionTreeRoot: string; actionTagCount: string } }
+  | { name: "ResourcePayload"; params: PayloadParams }
+  | { name: "DiscoveryPayload"; params: PayloadParams }
+  | { name: "ExternalPayload"; params: PayloadParams }
+  | { name: "ApplicationPayload"; params: PayloadParams }
+  | { name: "CommitmentTreeRootAdded"; params: { root: string } }
+  | {
+      name: "ForwarderCallExecuted";
+      params: { untrustedForwarder: string; input: string; output: string };
+    }
+  | { name: "Paused"; params: { account: string } }
+  | { name: "Unpaused"; params: { account: string } }
+  | { name: "OwnershipTransferred"; params: { previousOwner: string; newOwner: string } }
+) & {
+  /** Log index within the transaction; defaults to the event's position */
+  logIndex?: number;
+};
+
+export interface FixtureTransaction {
+  hash: string;
+  blockNumber: number;
+  timestamp: number;
+  from?: string;
+  to?: string;
+  input: string;
+  gasUsed?: string;
+  /** Events in emission order */
+  events: FixtureEvent[];
+}
+
+export interface Fixture {
+  description: string;
+  chainId: number;
+  protocolAdapter: string;
+  transactions: FixtureTransaction[];
+}
+
+type MockEventData = NonNullable<
+  Parameters<typeof ProtocolAdapter.TransactionExecuted.createMockEvent>[0]["mockEventData"]
+>;
+
+// ============================================
+// Replay
+// ============================================
+
+/**
+ * Load a fixture from ./fixtures by name.
+ */
+export function loadFixture(name: string): Fixture {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, `${name}.json`), "utf8")) as Fixture;
+}
+
+/**
+ * Process one fixture event with the handler registered for it.
+ */
+async function processFixtureEvent(
+  event: FixtureEvent,
+  mockEventData: MockEventData,
+  mockDb: MockDb
+): Promise<MockDb> {
+  switch (event.name) {
+    case "TransactionExecuted":
+      return ProtocolAdapter.TransactionExecuted.processEvent({
+        event: ProtocolAdapter.TransactionExecuted.createMockEvent({
+          ...event.params,
+          mockEventData,
+        }),
+        mockDb,
+      });
+    case "ActionExecuted":
+      return ProtocolAdapter.ActionExecuted.processEvent({
+        event: ProtocolAdapter.ActionExecuted.createMockEvent({
+          actionTreeRoot: event.params.actionTreeRoot,
+          actionTagCount: BigInt(event.params.actionTagCount),
+          mockEventData,
+        }),
+        mockDb,
+      });
+    case "ResourcePayload":
+    case "DiscoveryPayload":
+    case "ExternalPayload":
+    case "ApplicationPayload": {
+      const payload = ProtocolAdapter[event.name];
+      return payload.processEvent({
+        event: payload.createMockEvent({
+          ...event.params,
+          index: BigInt(event.params.index),
+          mockEventData,
+        }),
+        mockDb,
+      });
+    }
+    case "CommitmentTreeRootAdded":
+      return ProtocolAdapter.CommitmentTreeRootAdded.processEvent({
+        event: ProtocolAdapter.CommitmentTreeRootAdded.createMockEvent({
+          ...event.params,
+          mockEventData,
+        }),
+        mockDb,
+      });
+    case "ForwarderCallExecuted":
+      return ProtocolAdapter.ForwarderCallExecuted.processEvent({
+        event: ProtocolAdapter.ForwarderCallExecuted.createMockEvent({
+          ...event.params,
+          mockEventData,
+        }),
+        mockDb,
+      });
+    case "Paused":
+    case "Unpaused": {
+      const pause = ProtocolAdapter[event.name];
+      return pause.processEvent({
+        event: pause.createMockEvent({ ...event.params, mockEventData }),
+        mockDb,
+      });
+    }
+    case "OwnershipTransferred":
+      return ProtocolAdapter.OwnershipTransferred.processEvent({
+        event: ProtocolAdapter.OwnershipTransferred.createMockEvent({
+          ...event.params,
+          mockEventData,
+        }),
+        mockDb,
+      });
+  }
+}
+
+/**
+ * Replay a fixture's transactions and events in order through the real handlers.
+ *
+ * @param fixture - The fixture to replay
+ * @param mockDb - Store to start from; empty by default
+ * @returns The store after the last event
+ */
+export async function replayFixture(
+  fixture: Fixture,
+  mockDb: MockDb = MockDb.createMockDb()
+): Promise<MockDb> {
+  let db = mockDb;
+
+  for (const tx of fixture.transactions) {
+    for (let position = 0; position < tx.events.length; position++) {
+      const event = tx.events[position];
+      const mockEventData: MockEventData = {
+        chainId: fixture.chainId,
+        srcAddress: fixture.protocolAdapter,
+        logIndex: event.logIndex ?? position,
+        block: { number: tx.blockNumber, timestamp: tx.timestamp },
+        transaction: {
+          hash: tx.hash,
+          from: tx.from,
+          to: tx.to,
+          input: tx.input,
+          gasUsed: tx.gasUsed === undefined ? undefined : BigInt(tx.gasUsed),
+        },
+      };
+      db = await processFixtureEvent(event, mockEventData, db);
+    }
+  }
+
+  return db;
+}
+
+// ============================================
+// Snapshots
+// ============================================
+
+export type EntitySnapshot = Record<string, JsonValue[]>;
+
+/**
+ * Convert every non-empty entity table to JSON, ordered by entity ID.
+ */
+export function snapshotEntities(mockDb: MockDb): EntitySnapshot {
+  const snapshot: EntitySnapshot = {};
+
+  for (const [name, store] of Object.entries(mockDb.entities).sort(([a], [b]) =>
+    a.localeCompare(b)
+  )) {
+    const entities = [...(store.getAll() as { id: string }[])].sort((a, b) =>
+      a.id.localeCompare(b.id)
+    );
+    if (entities.length > 0) {
+      snapshot[name] = entities.map((entity) => toJsonValue(entity));
+    }
+  }
+
+  return snapshot;
+}
+
+/**
+ * Compare a snapshot with the golden file of the given name,
+ * or write the golden file when UPDATE_GOLDEN is set.
+ */
+export function expectMatchesGolden(name: string, snapshot: EntitySnapshot): void {
+  const file = path.join(GOLDEN_DIR, `${name}.json`);
+
+  if (process.env.UPDATE_GOLDEN) {
+    mkdirSync(GOLDEN_DIR, { recursive: true });
+    writeFileSync(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+    return;
+  }
+
+  if (!existsSync(file)) {
+    throw new Error(`Missing golden file ${file}; run pnpm test:update-golden to create it`);
+  }
+  const golden = JSON.parse(readFileSync(file, "utf8")) as EntitySnapshot;
+  expect(snapshot).to.deep.equal(golden);
+}
@@ -0,0 +1,160 @@
+import { expect } from "chai";
+import type { Hex } from "viem";
+import {
+  DAY_SECONDS,
+  HOUR_SECONDS,
+  createActivityId,
+  getBucketStart,
+} from "../../src/stats/Activity";
+import {
+  replayFixture,
+  type Fixture,
+  type FixtureEvent,
+  type FixtureTransaction,
+} from "../handlers/harness";
+
+const CHAIN_ID = 42161;
+const PROTOCOL_ADAPTER = "0x9ed43c229480659bf6b6607c46d7b96c6d760cbb";
+
+// 2023-11-14T00:00:00Z, the start of both an hour and a UTC day
+const DAY = 1699920000;
+
+const word = (n: number): Hex => `0x${n.toString(16).padStart(64, "0")}`;
+
+/**
+ * A transaction without decodable calldata emitting the given events.
+ */
+function transaction(
+  blockNumber: number,
+  timestamp: number,
+  events: FixtureEvent[],
+  gasUsed?: string
+) {
+  return {
+    hash: word(0x6000 + blockNumber),
+    blockNumber,
+    timestamp,
+    input: "0x",
+    gasUsed,
+    events,
+  } satisfies FixtureTransaction;
+}
+
+function fixture(transactions: FixtureTransaction[], chainId = CHAIN_ID): Fixture {
+  return { description: "Activity", chainId, protocolAdapter: PROTOCOL_ADAPTER, transactions };
+}
+
+/**
+ * A discovery payload with a blob of the given size.
+ */
+const discovery = (byteLength = 2): FixtureEvent => ({
+  name: "DiscoveryPayload",
+  params: { tag: word(0xd1), index: "0", blob: `0x${"ab".repeat(byteLength)}` },
+});
+
+describe("getBucketStart", () => {
+  it("should start a new bucket exactly on the edge", () => {
+    expect(getBucketStart(DAY, HOUR_SECONDS)).to.equal(DAY);
+    expect(getBucketStart(DAY, DAY_SECONDS)).to.equal(DAY);
+    expect(getBucketStart(DAY + HOUR_SECONDS, HOUR_SECONDS)).to.equal(DAY + HOUR_SECONDS);
+  });
+
+  it("should keep the last second in the previous bucket", () => {
+    expect(getBucketStart(DAY - 1, HOUR_SECONDS)).to.equal(DAY - HOUR_SECONDS);
+    expect(getBucketStart(DAY - 1, DAY_SECONDS)).to.equal(DAY - DAY_SECONDS);
+    expect(getBucketStart(DAY + HOUR_SECONDS - 1, HOUR_SECONDS)).to.equal(DAY);
+  });
+});
+
+describe("updateActivity", () => {
+  it("should put the first and last second of an hour into the same bucket", async () => {
+    const db = await replayFixture(
+      fixture([
+        transaction(100, DAY, [discovery()]),
+        transaction(399, DAY + HOUR_SECONDS - 1, [discovery()]),
+      ])
+    );
+
+    expect(db.entities.ActivityHourly.getAll()).to.have.length(1);
+    expect(db.entities.ActivityHourly.get(createActivityId(CHAIN_ID, DAY))).to.include({
+      bucketStart: DAY,
+      payloadCount: 2,
+      firstBlock: 100,
+      lastBlock: 399,
+    });
+  });
+
+  it("should start new hourly and daily buckets on their edges", async () => {
+    const db = await replayFixture(
+      fixture([
+        transaction(99, DAY - 1, [discovery()]),
+        transaction(100, DAY, [discovery(), discovery()]),
+        transaction(400, DAY + HOUR_SECONDS, [discovery(), discovery(), discovery()]),
+      ])
+    );
+
+    expect(
+      db.entities.ActivityHourly.getAll()
+        .map((bucket) => bucket.bucketStart)
+        .sort()
+    ).to.deep.equal([DAY - HOUR_SECONDS, DAY, DAY + HOUR_SECONDS]);
+    expect(
+      db.entities.ActivityHourly.get(createActivityId(CHAIN_ID, DAY + HOUR_SECONDS))?.payloadCount
+    ).to.equal(3);
+
+    expect(db.entities.ActivityDaily.get(createActivityId(CHAIN_ID, DAY - DAY_SECONDS))).to.include(
+      { payloadCount: 1, firstBlock: 99, lastBlock: 99 }
+    );
+    expect(db.entities.ActivityDaily.get(createActivityId(CHAIN_ID, DAY))).to.include({
+      payloadCount: 5,
+      firstBlock: 100,
+      lastBlock: 400,
+    });
+  });
+
+  it("should accumulate payload bytes and gas as bigints", async () => {
+    const db = await replayFixture(
+      fixture([
+        transaction(100, DAY, [discovery(32), discovery(0), discovery(100)]),
+        transaction(
+          101,
+          DAY + 12,
+          [{ name: "TransactionExecuted", params: { tags: [], logicRefs: [] } }],
+          "21000"
+        ),
+      ])
+    );
+
+    const expected = { payloadCount: 3, payloadBytes: 132n, transactionCount: 1, gasUsed: 21000n };
+    expect(db.entities.ActivityHourly.get(createActivityId(CHAIN_ID, DAY))).to.include(expected);
+    expect(db.entities.ActivityDaily.get(createActivityId(CHAIN_ID, DAY))).to.include(expected);
+  });
+
+  it("should keep the first block when an earlier block arrives later", async () => {
+    const db = await replayFixture(
+      fixture([
+        transaction(120, DAY + 60, [discovery()]),
+        transaction(110, DAY + 30, [discovery()]),
+      ])
+    );
+
+    expect(db.entities.ActivityHourly.get(createActivityId(CHAIN_ID, DAY))).to.include({
+      firstBlock: 110,
+      lastBlock: 120,
+    });
+  });
+
+  it("should keep separate buckets per chain", async () => {
+    const other = 8453;
+    const db = await replayFixture(
+      fixture([transaction(100, DAY, [discovery()])], other),
+      await replayFixture(fixture([transaction(100, DAY, [discovery()])]))
+    );
+
+    expect(
+      db.entities.ActivityDaily.getAll()
+        .map((bucket) => bucket.id)
+        .sort()
+    ).to.deep.equal([createActivityId(other, DAY), createActivityId(CHAIN_ID, DAY)].sort());
+  });
+});
@@ -0,0 +1,112 @@
+import { expect } from "chai";
+import type { Hex } from "viem";
+import { createChainStatsId } from "../../src/stats/ChainStats";
+import {
+  replayFixture,
+  type Fixture,
+  type FixtureEvent,
+  type FixtureTransaction,
+} from "../handlers/harness";
+
+const PROTOCOL_ADAPTER = "0x9ed43c229480659bf6b6607c46d7b96c6d760cbb";
+
+const word = (n: number): Hex => `0x${n.toString(16).padStart(64, "0")}`;
+
+/**
+ * A transaction without decodable calldata emitting the given events.
+ */
+function transaction(blockNumber: number, events: FixtureEvent[], gasUsed?: string) {
+  return {
+    hash: word(0x5000 + blockNumber),
+    blockNumber,
+    timestamp: 1700000000 + blockNumber * 12,
+    input: "0x",
+    gasUsed,
+    events,
+  } satisfies FixtureTransaction;
+}
+
+function fixture(chainId: number, transactions: FixtureTransaction[]): Fixture {
+  return { description: "ChainStats", chainId, protocolAdapter: PROTOCOL_ADAPTER, transactions };
+}
+
+const discovery = (index: number): FixtureEvent => ({
+  name: "DiscoveryPayload",
+  params: { tag: word(0xd1), index: String(index), blob: "0x1234" },
+});
+
+describe("updateChainStats", () => {
+  it("should create stats on the first event and add every counter of the delta", async () => {
+    const db = await replayFixture(
+      fixture(42161, [
+        transaction(
+          10,
+          [
+            { name: "CommitmentTreeRootAdded", params: { root: word(0x7007) } },
+            { name: "TransactionExecuted", params: { tags: [], logicRefs: [] } },
+          ],
+          "21000"
+        ),
+      ])
+    );
+
+    expect(db.entities.ChainStats.get(createChainStatsId(42161))).to.include({
+      chainId: 42161,
+      transactionCount: 1,
+      commitmentTreeRootCount: 1,
+      actionCount: 0,
+      createdResourceCount: 0,
+      totalGasUsed: 21000n,
+      latestBlock: 10,
+      latestTimestamp: 1700000120,
+    });
+  });
+
+  it("should count repeated payloads of the same kind", async () => {
+    const db = await replayFixture(
+      fixture(42161, [
+        transaction(20, [
+          discovery(0),
+          discovery(1),
+          discovery(2),
+          { name: "ResourcePayload", params: { tag: word(0xd1), index: "0", blob: "0x" } },
+        ]),
+      ])
+    );
+
+    expect(db.entities.ChainStats.get(createChainStatsId(42161))).to.include({
+      discoveryPayloadCount: 3,
+      resourcePayloadCount: 1,
+      externalPayloadCount: 0,
+      applicationPayloadCount: 0,
+    });
+  });
+
+  it("should keep separate totals per chain", async () => {
+    let db = await replayFixture(fixture(42161, [transaction(30, [discovery(0)])]));
+    db = await replayFixture(fixture(8453, [transaction(5, [discovery(0)])]), db);
+    db = await replayFixture(fixture(42161, [transaction(31, [discovery(0)])]), db);
+
+    expect(db.entities.ChainStats.getAll()).to.have.length(2);
+    expect(db.entities.ChainStats.get(createChainStatsId(42161))).to.include({
+      discoveryPayloadCount: 2,
+      latestBlock: 31,
+    });
+    expect(db.entities.ChainStats.get(createChainStatsId(8453))).to.include({
+      discoveryPayloadCount: 1,
+      latestBlock: 5,
+    });
+  });
+
+  it("should not move the latest block back for an earlier event", async () => {
+    const db = await replayFixture(
+      fixture(42161, [transaction(50, [discovery(0)]), transaction(40, [discovery(0)])])
+    );
+
+    expect(db.entities.ChainStats.get(createChainStatsId(42161))).to.include({
+      discoveryPayloadCount: 2,
+      latestBlock: 50,
+      latestTimestamp: 1700000600,
+    });
+  });
+});
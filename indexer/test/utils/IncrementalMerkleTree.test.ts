@@ -0,0 +1,98 @@
+import { expect } from "chai";
+import { concat, sha256, type Hex } from "viem";
+import { MERKLE_EMPTY_LEAF } from "../../src/constants";
+import { IncrementalMerkleTree } from "../../src/utils/IncrementalMerkleTree";
+import { computeMerkleRoot, computeRootFromPath } from "../../src/utils/merkle";
+
+const leaf = (n: number): Hex => `0x${(n + 1).toString(16).padStart(64, "0")}`;
+const leaves = (from: number, to: number): Hex[] =>
+  Array.from({ length: to - from }, (_, i) => leaf(from + i));
+
+/**
+ * Sibling path and root of a leaf, computed naively from the full padded tree.
+ */
+function referenceProof(all: readonly Hex[], leafIndex: number): { path: Hex[]; root: Hex } {
+  let nodes: Hex[] = [...all];
+  while (nodes.length === 0 || (nodes.length & (nodes.length - 1)) !== 0) {
+    nodes.push(MERKLE_EMPTY_LEAF);
+  }
+  const path: Hex[] = [];
+  let index = leafIndex;
+  while (nodes.length > 1) {
+    path.push(nodes[index ^ 1]);
+    nodes = nodes.flatMap((node, i) => (i % 2 === 0 ? [sha256(concat([node, nodes[i + 1]]))] : []));
+    index = Math.floor(index / 2);
+  }
+  return { path, root: nodes[0] };
+}
+
+describe("IncrementalMerkleTree", () => {
+  it("should match computeMerkleRoot for every tree size", () => {
+    const tree = new IncrementalMerkleTree();
+    expect(tree.root()).to.equal(computeMerkleRoot([]));
+    for (let n = 1; n <= 17; n++) {
+      expect(tree.append(leaf(n - 1))).to.equal(n - 1);
+      expect(tree.root()).to.equal(computeMerkleRoot(leaves(0, n)));
+    }
+  });
+
+  it("should resume from a persisted frontier", () => {
+    const first = new IncrementalMerkleTree();
+    first.appendAll(leaves(0, 5));
+
+    const resumed = new IncrementalMerkleTree(first.frontier, first.leafCount);
+    const { indices, root } = resumed.appendAll(leaves(5, 11));
+
+    expect(indices).to.deep.equal([5, 6, 7, 8, 9, 10]);
+    expect(root).to.equal(computeMerkleRoot(leaves(0, 11)));
+  });
+
+  it("should return sibling paths that prove each leaf against the batch root", () => {
+    const tree = new IncrementalMerkleTree();
+    tree.appendAll(leaves(0, 3));
+
+    const batch = leaves(3, 7);
+    const { indices, paths, root } = tree.appendAll(batch);
+
+    for (let i = 0; i < batch.length; i++) {
+      expect(paths[i]).to.have.length(3);
+      expect(computeRootFromPath(batch[i], indices[i], paths[i])).to.equal(root);
+    }
+  });
+
+  it("should match a naive full-tree reference for every prefix and batch size", () => {
+    for (let prefix = 0; prefix <= 9; prefix++) {
+      for (let batchSize = 1; batchSize <= 9; batchSize++) {
+        const tree = new IncrementalMerkleTree();
+        tree.appendAll(leaves(0, prefix));
+        const { indices, paths, root } = tree.appendAll(leaves(prefix, prefix + batchSize));
+        const all = leaves(0, prefix + batchSize);
+
+        indices.forEach((leafIndex, i) => {
+          const expected = referenceProof(all, leafIndex);
+          expect(paths[i], `prefix ${prefix}, leaf ${leafIndex}`).to.deep.equal(expected.path);
+          expect(root).to.equal(expected.root);
+        });
+      }
+    }
+  });
+
+  it("should prove every leaf of a large batch", () => {
+    const tree = new IncrementalMerkleTree();
+    tree.appendAll(leaves(0, 5));
+    const batch = leaves(5, 4100);
+    const { indices, paths, root } = tree.appendAll(batch);
+
+    expect(root).to.equal(computeMerkleRoot(leaves(0, 4100)));
+    for (let i = 0; i < batch.length; i += 97) {
+      expect(paths[i]).to.have.length(13);
+      expect(computeRootFromPath(batch[i], indices[i], paths[i])).to.equal(root);
+    }
+  });
+
+  it("should return an empty path for a single-leaf tree", () => {
+    const { paths, root } = new IncrementalMerkleTree().appendAll([leaf(0)]);
+    expect(paths).to.deep.equal([[]]);
+    expect(root).to.equal(leaf(0));
+  });
+});
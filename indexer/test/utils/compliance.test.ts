@@ -0,0 +1,99 @@
+import { expect } from "chai";
+import type { Hex } from "viem";
+import { matchLogicInputs } from "../../src/utils/compliance";
+import type { Action, AppData, ComplianceVerifierInput } from "../../src/types";
+
+const tag = (n: number): Hex => `0x${n.toString(16).padStart(64, "0")}`;
+
+const EMPTY_APP_DATA: AppData = {
+  resourcePayload: [],
+  discoveryPayload: [],
+  externalPayload: [],
+  applicationPayload: [],
+};
+
+function unit(nullifier: Hex, consumedLogicRef: Hex, commitment: Hex, createdLogicRef: Hex) {
+  const input: ComplianceVerifierInput = {
+    proof: "0x",
+    instance: {
+      consumed: { nullifier, logicRef: consumedLogicRef, commitmentTreeRoot: tag(0) },
+      created: { commitment, logicRef: createdLogicRef },
+      unitDeltaX: tag(0),
+      unitDeltaY: tag(0),
+    },
+  };
+  return input;
+}
+
+function makeAction(logicInputs: [Hex, Hex][], units: ComplianceVerifierInput[]): Action {
+  return {
+    logicVerifierInputs: logicInputs.map(([liTag, verifyingKey]) => ({
+      tag: liTag,
+      verifyingKey,
+      appData: EMPTY_APP_DATA,
+      proof: "0x",
+    })),
+    complianceVerifierInputs: units,
+  };
+}
+
+describe("compliance", () => {
+  describe("matchLogicInputs", () => {
+    it("should derive consumed/created status from the compliance units, not the index", () => {
+      // Created tag first: parity would label both logic inputs wrongly
+      const action = makeAction(
+        [
+          [tag(2), tag(200)],
+          [tag(1), tag(100)],
+        ],
+        [unit(tag(1), tag(100), tag(2), tag(200))]
+      );
+      const match = matchLogicInputs(action);
+
+      expect(match.logicInputs).to.deep.equal([
+        { complianceUnitIndex: 0, isConsumed: false, logicRefMismatch: false },
+        { complianceUnitIndex: 0, isConsumed: true, logicRefMismatch: false },
+      ]);
+      expect(match.complianceUnits).to.deep.equal([
+        {
+          consumedLogicInputIndex: 1,
+          createdLogicInputIndex: 0,
+          consumedLogicRefMismatch: false,
+          createdLogicRefMismatch: false,
+        },
+      ]);
+    });
+
+    it("should flag logicRefs that differ from the verifying keys on both sides", () => {
+      const action = makeAction(
+        [
+          [tag(1), tag(100)],
+          [tag(2), tag(200)],
+        ],
+        [unit(tag(1), tag(100), tag(2), tag(999))]
+      );
+      const match = matchLogicInputs(action);
+
+      expect(match.complianceUnits[0]).to.include({
+        consumedLogicRefMismatch: false,
+        createdLogicRefMismatch: true,
+      });
+      expect(match.logicInputs.map((li) => li.logicRefMismatch)).to.deep.equal([false, true]);
+    });
+
+    it("should leave tags without a compliance unit unmatched", () => {
+      const action = makeAction([[tag(5), tag(100)]], [unit(tag(1), tag(100), tag(2), tag(200))]);
+      const match = matchLogicInputs(action);
+
+      expect(match.logicInputs[0]).to.deep.equal({
+        complianceUnitIndex: -1,
+        isConsumed: undefined,
+        logicRefMismatch: false,
+      });
+      expect(match.complianceUnits[0]).to.include({
+        consumedLogicInputIndex: -1,
+        createdLogicInputIndex: -1,
+      });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { expect } from "chai";
+import type { Hex } from "viem";
+import {
+  checkActionTagCount,
+  checkCalldataTags,
+  checkExecuteCallCount,
+  checkTagCount,
+} from "../../src/utils/consistency";
+import type { Action, AppData } from "../../src/types";
+
+const tag = (n: number): Hex => `0x${n.toString(16).padStart(64, "0")}`;
+
+const EMPTY_APP_DATA: AppData = {
+  resourcePayload: [],
+  discoveryPayload: [],
+  externalPayload: [],
+  applicationPayload: [],
+};
+
+function makeAction(logicInputs: [Hex, Hex][]): Action {
+  return {
+    logicVerifierInputs: logicInputs.map(([liTag, verifyingKey]) => ({
+      tag: liTag,
+      verifyingKey,
+      appData: EMPTY_APP_DATA,
+      proof: "0x",
+    })),
+    complianceVerifierInputs: [],
+  };
+}
+
+describe("consistency", () => {
+  const actions = [
+    makeAction([
+      [tag(1), tag(100)],
+      [tag(2), tag(100)],
+    ]),
+    makeAction([
+      [tag(3), tag(200)],
+      [tag(4), tag(200)],
+    ]),
+  ];
+  const tags = [tag(1), tag(2), tag(3), tag(4)];
+  const logicRefs = [tag(100), tag(100), tag(200), tag(200)];
+
+  describe("checkCalldataTags", () => {
+    it("should accept logic inputs matching the event in action order", () => {
+      expect(checkCalldataTags(tags, logicRefs, actions)).to.be.empty;
+    });
+
+    it("should compare tags case-insensitively", () => {
+      expect(
+        checkCalldataTags(
+          tags.map((t) => t.toUpperCase()),
+          logicRefs,
+          actions
+        )
+      ).to.be.empty;
+    });
+
+    it("should report the first differing tag index", () => {
+      const [violation] = checkCalldataTags([tag(1), tag(2), tag(4), tag(3)], logicRefs, actions);
+      expect(violation).to.include({
+        check: "tag_mismatch",
+        index: 2,
+        expected: tag(4),
+        actual: tag(3),
+      });
+    });
+
+    it("should report missing logic inputs", () => {
+      const [violation] = checkCalldataTags(tags, logicRefs, actions.slice(0, 1));
+      expect(violation).to.include({ check: "tag_mismatch", index: 2, actual: undefined });
+    });
+
+    it("should report verifying keys differing from the logicRef of their tag", () => {
+      const violations = checkCalldataTags(tags, [tag(100), tag(100), tag(200), tag(9)], actions);
+      expect(violations).to.have.length(1);
+      expect(violations[0]).to.include({
+        check: "logic_ref_mismatch",
+        index: 3,
+        expected: tag(9),
+        actual: tag(200),
+      });
+    });
+  });
+
+  describe("checkTagCount", () => {
+    it("should report odd tag counts", () => {
+      expect(checkTagCount(tags)).to.be.empty;
+      expect(checkTagCount(tags.slice(1))[0]).to.include({ check: "odd_tag_count", actual: "3" });
+    });
+  });
+
+  describe("checkActionTagCount", () => {
+    it("should compare the summed action tag counts with the tag count", () => {
+      expect(checkActionTagCount(4, 2, 4)).to.be.empty;
+      expect(checkActionTagCount(4, 1, 2)[0]).to.include({
+        check: "action_tag_count_mismatch",
+        expected: "4",
+        actual: "2",
+      });
+    });
+  });
+
+  describe("checkExecuteCallCount", () => {
+    it("should flag calldata with more than one execute call", () => {
+      expect(checkExecuteCallCount(0)).to.be.empty;
+      expect(checkExecuteCallCount(1)).to.be.empty;
+      expect(checkExecuteCallCount(2)[0]).to.include({
+        check: "multiple_execute_calls",
+        expected: "1",
+        actual: "2",
+      });
+    });
+  });
+});
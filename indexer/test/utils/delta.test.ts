@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import { numberToHex, slice, type Hex } from "viem";
+import { privateKeyToAccount, sign } from "viem/accounts";
+import {
+  computeDeltaMessageDigest,
+  computeTransactionDelta,
+  deltaToAccount,
+  verifyDeltaProof,
+} from "../../src/utils/delta";
+import { addPoints, isOnCurve } from "../../src/utils/secp256k1";
+import type { Action } from "../../src/types";
+
+const tag = (n: number): Hex => `0x${n.toString(16).padStart(64, "0")}`;
+const key = (n: bigint): Hex => numberToHex(n, { size: 32 });
+
+/**
+ * Returns the public key point n*G as unit delta coordinates.
+ */
+function deltaOf(n: bigint): { unitDeltaX: Hex; unitDeltaY: Hex } {
+  const publicKey = privateKeyToAccount(key(n)).publicKey;
+  return { unitDeltaX: slice(publicKey, 1, 33), unitDeltaY: slice(publicKey, 33, 65) };
+}
+
+function makeAction(deltas: { unitDeltaX: Hex; unitDeltaY: Hex }[]): Action {
+  return {
+    logicVerifierInputs: [],
+    complianceVerifierInputs: deltas.map((delta, i) => ({
+      proof: "0x" as Hex,
+      instance: {
+        consumed: { nullifier: tag(2 * i), logicRef: tag(0), commitmentTreeRoot: tag(0) },
+        created: { commitment: tag(2 * i + 1), logicRef: tag(0) },
+        ...delta,
+      },
+    })),
+  };
+}
+
+const TAGS = [tag(1), tag(2), tag(3), tag(4)];
+
+describe("delta", () => {
+  describe("computeTransactionDelta", () => {
+    it("should sum unit deltas across actions", () => {
+      const actions = [makeAction([deltaOf(3n)]), makeAction([deltaOf(4n)])];
+      const expected = deltaOf(7n);
+      const sum = computeTransactionDelta(actions);
+      expect(numberToHex(sum.x, { size: 32 })).to.equal(expected.unitDeltaX);
+      expect(numberToHex(sum.y, { size: 32 })).to.equal(expected.unitDeltaY);
+    });
+
+    it("should double equal points", () => {
+      const point = computeTransactionDelta([makeAction([deltaOf(5n)])]);
+      const doubled = addPoints(point, point);
+      expect(doubled && isOnCurve(doubled)).to.equal(true);
+      expect(numberToHex(doubled!.x, { size: 32 })).to.equal(deltaOf(10n).unitDeltaX);
+    });
+
+    it("should reject unit deltas that are not on the curve", () => {
+      const actions = [makeAction([{ unitDeltaX: tag(1), unitDeltaY: tag(2) }])];
+      expect(() => computeTransactionDelta(actions)).to.throw("not on secp256k1");
+    });
+  });
+
+  describe("verifyDeltaProof", () => {
+    const actions = [makeAction([deltaOf(11n), deltaOf(31n)])];
+
+    it("should accept a signature by the transaction delta key", async () => {
+      const proof = await sign({
+        hash: computeDeltaMessageDigest(TAGS),
+        privateKey: key(42n),
+        to: "hex",
+      });
+      const result = await verifyDeltaProof(actions, TAGS, proof);
+      expect(result.error).to.be.undefined;
+      expect(result.verified).to.equal(true);
+      expect(deltaToAccount(result.transactionDelta!).toLowerCase()).to.equal(
+        privateKeyToAccount(key(42n)).address.toLowerCase()
+      );
+    });
+
+    it("should reject a signature over different tags", async () => {
+      const proof = await sign({
+        hash: computeDeltaMessageDigest([tag(9)]),
+        privateKey: key(42n),
+        to: "hex",
+      });
+      const result = await verifyDeltaProof(actions, TAGS, proof);
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.include("does not match");
+    });
+
+    it("should reject malformed proofs", async () => {
+      const result = await verifyDeltaProof(actions, TAGS, "0x1234");
+      expect(result.verified).to.equal(false);
+      expect(result.error).to.include("65 bytes");
+    });
+  });
+});
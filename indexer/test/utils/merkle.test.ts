@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import { concat, sha256, type Hex } from "viem";
+import {
+  computeMinimalTreeDepth,
+  computeMerkleRoot,
+  computeActionTreeRoot,
+  findActionIndexByTreeRoot,
+  hashPair,
+} from "../../src/utils/merkle";
+import { MERKLE_EMPTY_LEAF } from "../../src/constants";
+import type { Action } from "../../src/types";
+
+const tag = (n: number): Hex => `0x${n.toString(16).padStart(64, "0")}`;
+
+function makeAction(tags: Hex[]): Action {
+  const complianceVerifierInputs = [];
+  for (let i = 0; i < tags.length; i += 2) {
+    complianceVerifierInputs.push({
+      proof: "0x" as Hex,
+      instance: {
+        consumed: { nullifier: tags[i], logicRef: tag(0), commitmentTreeRoot: tag(0) },
+        created: { commitment: tags[i + 1], logicRef: tag(0) },
+        unitDeltaX: tag(0),
+        unitDeltaY: tag(0),
+      },
+    });
+  }
+  return { logicVerifierInputs: [], complianceVerifierInputs };
+}
+
+describe("merkle", () => {
+  describe("computeMinimalTreeDepth", () => {
+    it("should return the smallest depth that fits the leaves", () => {
+      expect(computeMinimalTreeDepth(0)).to.equal(0);
+      expect(computeMinimalTreeDepth(1)).to.equal(0);
+      expect(computeMinimalTreeDepth(2)).to.equal(1);
+      expect(computeMinimalTreeDepth(3)).to.equal(2);
+      expect(computeMinimalTreeDepth(4)).to.equal(2);
+      expect(computeMinimalTreeDepth(5)).to.equal(3);
+    });
+  });
+
+  describe("computeMerkleRoot", () => {
+    it("should hash pairs as sha256(left || right)", () => {
+      expect(hashPair(tag(1), tag(2))).to.equal(sha256(concat([tag(1), tag(2)])));
+      expect(computeMerkleRoot([tag(1), tag(2)])).to.equal(hashPair(tag(1), tag(2)));
+    });
+
+    it("should pad with the empty leaf up to the next power of two", () => {
+      const expected = hashPair(hashPair(tag(1), tag(2)), hashPair(tag(3), MERKLE_EMPTY_LEAF));
+      expect(computeMerkleRoot([tag(1), tag(2), tag(3)])).to.equal(expected);
+    });
+  });
+
+  describe("findActionIndexByTreeRoot", () => {
+    it("should distinguish actions with the same number of tags", () => {
+      const actions = [makeAction([tag(1), tag(2)]), makeAction([tag(3), tag(4)])];
+      const root = computeActionTreeRoot(actions[1]);
+      expect(findActionIndexByTreeRoot(actions, root)).to.equal(1);
+      expect(findActionIndexByTreeRoot(actions, root.toUpperCase().replace("0X", "0x"))).to.equal(
+        1
+      );
+    });
+
+    it("should return -1 when no action matches", () => {
+      const actions = [makeAction([tag(1), tag(2)])];
+      expect(findActionIndexByTreeRoot(actions, tag(99))).to.equal(-1);
+    });
+  });
+});
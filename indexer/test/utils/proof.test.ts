@@ -0,0 +1,26 @@
+import { expect } from "chai";
+import { sha256 } from "viem";
+import { getProofMetadata } from "../../src/utils/proof";
+
+describe("proof", () => {
+  describe("getProofMetadata", () => {
+    it("should return the content hash, size and verifier selector of a seal", () => {
+      const seal = "0x9f39696c0102030405";
+      expect(getProofMetadata("compliance", seal)).to.deep.equal({
+        hash: sha256(seal),
+        kind: "compliance",
+        byteLength: 9,
+        verifierSelector: "0x9f39696c",
+      });
+    });
+
+    it("should not report a verifier selector for delta proofs", () => {
+      expect(getProofMetadata("delta", `0x${"11".repeat(65)}`)?.verifierSelector).to.be.undefined;
+    });
+
+    it("should return null for empty proofs", () => {
+      expect(getProofMetadata("logic", "0x")).to.be.null;
+      expect(getProofMetadata("aggregation", undefined)).to.be.null;
+    });
+  });
+});